@@ -0,0 +1,103 @@
+import { appendFile, mkdir, readFile as fsReadFile } from "node:fs/promises"
+import { dirname } from "node:path"
+import { filePath } from "./filesystem.mts"
+import { configuredFiles } from "./configuration.mts"
+import debug from "debug"
+const log = debug("server:auditLog")
+
+// What happened to a file. A shadow is a create which hides a core file
+export type AuditOperation = "create" | "shadow" | "update" | "delete" | "move"
+
+// Who asked for a change, as far as we know
+export type AuditActor = {
+  // The command given to `execute`, e.g. an "append" may "create" a file
+  command?: string
+  clientAddress?: string
+  username?: string
+}
+
+export type AuditRecord = AuditActor & {
+  timestampMs: number
+  operation: AuditOperation
+  contentPath: string
+  // Only for moves
+  newContentPath?: string
+  // Of the file before and after, absent when there was no file
+  previousContentHash?: string
+  contentHash?: string
+}
+
+export type AuditFilter = {
+  // Matches either side of a move
+  contentPath?: string
+  operation?: string
+  command?: string
+  clientAddress?: string
+  username?: string
+}
+
+/**
+ * Add a record to the end of the audit log in the given directory. Records
+ * are one JSON object per line, and are never modified or removed.
+ **/
+export const appendAuditRecord = async ({
+  directory,
+  record,
+}: {
+  directory: string
+  record: AuditRecord
+}) => {
+  const path = filePath({ contentPath: configuredFiles.auditLog, directory })
+  await mkdir(dirname(path), { recursive: true })
+  await appendFile(path, JSON.stringify(record) + "\n", { flush: true })
+  log(`${record.operation} ${record.contentPath}`)
+}
+
+/**
+ * Records from the audit log in the given directory matching every property
+ * of the filter, most recent first
+ **/
+export const readAuditRecords = async ({
+  directory,
+  filter = {},
+}: {
+  directory: string
+  filter?: AuditFilter
+}): Promise<Array<AuditRecord>> => {
+  let content: string
+  try {
+    content = await fsReadFile(
+      filePath({ contentPath: configuredFiles.auditLog, directory }),
+      "utf8",
+    )
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return []
+    }
+    throw error
+  }
+  const records: Array<AuditRecord> = []
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue
+    try {
+      records.push(JSON.parse(line))
+    } catch (error) {
+      // E.g. a line cut short when the server stopped mid-write
+      log(`Skipping unreadable audit record '${line}'`)
+    }
+  }
+  return records
+    .filter((record) => matchesAuditFilter(record, filter))
+    .reverse()
+}
+
+export const matchesAuditFilter = (
+  record: AuditRecord,
+  { contentPath, ...rest }: AuditFilter,
+) =>
+  (!contentPath ||
+    record.contentPath === contentPath ||
+    record.newContentPath === contentPath) &&
+  Object.entries(rest).every(
+    ([key, value]) => !value || record[key as keyof AuditRecord] === value,
+  )
@@ -0,0 +1,234 @@
+/**
+ * Who may change the wiki. Anyone may read, but creating, updating, and
+ * deleting entries requires logging in as a user from the user store file.
+ *
+ * Without a user store file, authentication is disabled and anyone may edit,
+ * like before authentication existed.
+ *
+ * Either way, changes must come from this wiki's own forms, not forms on other
+ * sites which post here (cross-site request forgery, CSRF). Every browser gets
+ * a random token in a cookie, which forms send back in a `csrfToken` field, or
+ * scripts in an `X-CSRF-Token` header. Other sites can't read the cookie, so
+ * they can't send the token.
+ */
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto"
+import { mkdir, readFile, writeFile } from "node:fs/promises"
+import { dirname } from "node:path"
+import { promisify } from "node:util"
+import { type Request, type Response } from "express"
+import debug from "debug"
+import { ForbiddenQueryError, UnauthorizedQueryError } from "./error.mts"
+const log = debug("server:authentication")
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+) => Promise<Buffer>
+const keyLength = 64
+export const sessionCookieName = "htmlWikiSession"
+export const csrfCookieName = "htmlWikiCsrfToken"
+export const csrfTokenParameterName = "csrfToken"
+export const csrfTokenHeaderName = "X-CSRF-Token"
+const csrfTokenRegex = () => /^[0-9a-f]{64}$/
+
+export type UserStore = {
+  users: Record<string, { passwordHash: string }>
+}
+
+export type Session = {
+  username?: string
+}
+
+export type Authentication = {
+  // False when there's no user store, so everyone may edit
+  enabled: boolean
+  getSession: (req: Request) => Session
+  canEdit: (session: Session) => boolean
+  // Throws UnauthorizedQueryError for the wrong username or password
+  logIn: (params: {
+    req: Request
+    res: Response
+    username: string
+    password: string
+  }) => Promise<Session>
+  logOut: (params: { req: Request; res: Response }) => void
+}
+
+// Stored as `scrypt$<salt>$<hash>` with both in hex
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16)
+  const hash = await scryptAsync(password, salt, keyLength)
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`
+}
+
+export const verifyPassword = async (
+  password: string,
+  passwordHash: string,
+): Promise<boolean> => {
+  const [algorithm, saltHex, hashHex] = passwordHash.split("$")
+  if (algorithm !== "scrypt" || !saltHex || !hashHex) return false
+  const expected = Buffer.from(hashHex, "hex")
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(saltHex, "hex"),
+    expected.length,
+  )
+  return timingSafeEqual(actual, expected)
+}
+
+export const readUserStore = async (
+  userStorePath: string,
+): Promise<UserStore> => {
+  try {
+    const parsed = JSON.parse(await readFile(userStorePath, "utf8"))
+    return { users: parsed?.users ?? {} }
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return { users: {} }
+    }
+    throw error
+  }
+}
+
+// Add a user, or change the password of an existing one
+export const addUser = async ({
+  userStorePath,
+  username,
+  password,
+}: {
+  userStorePath: string
+  username: string
+  password: string
+}) => {
+  if (!/^[\w.-]+$/.test(username)) {
+    throw new Error(
+      "Usernames may only contain letters, numbers, '_', '.', and '-'",
+    )
+  }
+  if (password.length === 0) throw new Error("Password can't be empty")
+  const userStore = await readUserStore(userStorePath)
+  userStore.users[username] = { passwordHash: await hashPassword(password) }
+  await mkdir(dirname(userStorePath), { recursive: true })
+  await writeFile(userStorePath, JSON.stringify(userStore, null, 2) + "\n")
+}
+
+export const parseCookies = (
+  cookieHeader: string | undefined,
+): Record<string, string> => {
+  const cookies: Record<string, string> = {}
+  for (const pair of (cookieHeader ?? "").split(";")) {
+    const separatorIndex = pair.indexOf("=")
+    if (separatorIndex === -1) continue
+    const name = pair.slice(0, separatorIndex).trim()
+    const value = pair.slice(separatorIndex + 1).trim()
+    try {
+      cookies[name] = decodeURIComponent(value)
+    } catch (error) {
+      cookies[name] = value
+    }
+  }
+  return cookies
+}
+
+// A new token, e.g. on logging in, so one seen before doesn't keep working
+export const issueCsrfToken = (req: Request, res: Response): string => {
+  const csrfToken = randomBytes(32).toString("hex")
+  res.cookie(csrfCookieName, csrfToken, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: req.secure,
+    path: "/",
+  })
+  res.locals.csrfToken = csrfToken
+  return csrfToken
+}
+
+// The token for forms in this response, issuing one if the browser has none
+export const csrfTokenFor = (req: Request, res: Response): string => {
+  if (typeof res.locals.csrfToken === "string") return res.locals.csrfToken
+  const csrfToken = parseCookies(req.headers.cookie)[csrfCookieName]
+  if (csrfToken && csrfTokenRegex().test(csrfToken)) {
+    res.locals.csrfToken = csrfToken
+    return csrfToken
+  }
+  return issueCsrfToken(req, res)
+}
+
+export const assertCsrfToken = (req: Request) => {
+  const expected = parseCookies(req.headers.cookie)[csrfCookieName]
+  const submitted =
+    req.body?.[csrfTokenParameterName] ?? req.get(csrfTokenHeaderName)
+  if (
+    typeof expected !== "string" ||
+    typeof submitted !== "string" ||
+    !csrfTokenRegex().test(expected) ||
+    !csrfTokenRegex().test(submitted) ||
+    !timingSafeEqual(Buffer.from(submitted), Buffer.from(expected))
+  ) {
+    log(`Rejected request without a matching CSRF token to ${req.path}`)
+    throw new ForbiddenQueryError(
+      "This form is out of date or came from another site. Go back, reload the page, and try again",
+    )
+  }
+}
+
+// Sessions only live in memory, so restarting the server logs everyone out
+export const createAuthentication = async ({
+  userStorePath,
+}: {
+  userStorePath?: string
+}): Promise<Authentication> => {
+  const enabled = userStorePath !== undefined
+  const sessions = new Map<string, Session>()
+  if (enabled) {
+    const userStore = await readUserStore(userStorePath)
+    log(
+      `Authentication enabled with ${Object.keys(userStore.users).length} users from ${userStorePath}`,
+    )
+  } else {
+    log("No user store given, authentication disabled")
+  }
+
+  const sessionIdOf = (req: Request) =>
+    parseCookies(req.headers.cookie)[sessionCookieName]
+
+  return {
+    enabled,
+    getSession: (req) => {
+      const sessionId = sessionIdOf(req)
+      return (sessionId && sessions.get(sessionId)) || {}
+    },
+    canEdit: (session) => !enabled || session.username !== undefined,
+    logIn: async ({ req, res, username, password }) => {
+      if (!enabled) throw new Error("Authentication is disabled")
+      // Read every time, so users can be added without a restart
+      const { users } = await readUserStore(userStorePath)
+      const user = Object.hasOwn(users, username) ? users[username] : undefined
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        log(`Failed login for '${username}'`)
+        throw new UnauthorizedQueryError("Wrong username or password")
+      }
+      const previousSessionId = sessionIdOf(req)
+      if (previousSessionId) sessions.delete(previousSessionId)
+      const sessionId = randomBytes(32).toString("hex")
+      const session = { username }
+      sessions.set(sessionId, session)
+      res.cookie(sessionCookieName, sessionId, {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: req.secure,
+        path: "/",
+      })
+      issueCsrfToken(req, res)
+      log(`Logged in '${username}'`)
+      return session
+    },
+    logOut: ({ req, res }) => {
+      const sessionId = sessionIdOf(req)
+      if (sessionId) sessions.delete(sessionId)
+      res.clearCookie(sessionCookieName, { path: "/" })
+      issueCsrfToken(req, res)
+    },
+  }
+}
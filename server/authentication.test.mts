@@ -0,0 +1,205 @@
+import test from "node:test"
+import assert from "node:assert"
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { parse } from "node-html-parser"
+import {
+  addUser,
+  csrfCookieName,
+  hashPassword,
+  parseCookies,
+  readUserStore,
+  verifyPassword,
+} from "./authentication.mts"
+import { buildCache } from "./fileCache.mts"
+import { createServer } from "./server.mts"
+import { configuredFiles } from "./configuration.mts"
+
+const o = { concurrency: true }
+
+test("Passwords verify only against their own hash", o, async () => {
+  const passwordHash = await hashPassword("correct horse")
+  assert.match(passwordHash, /^scrypt\$[0-9a-f]+\$[0-9a-f]+$/)
+  assert.notEqual(passwordHash, await hashPassword("correct horse"), "Salted")
+  assert.ok(await verifyPassword("correct horse", passwordHash))
+  assert.ok(!(await verifyPassword("battery staple", passwordHash)))
+  assert.ok(!(await verifyPassword("correct horse", "plaintext")))
+})
+
+test("parseCookies", o, () => {
+  assert.deepEqual(parseCookies("a=1; b=two%20words;c"), {
+    a: "1",
+    b: "two words",
+  })
+  assert.deepEqual(parseCookies(undefined), {})
+})
+
+test("Only logged in users can make changes", o, async () => {
+  const directory = await mkdtemp(join(tmpdir(), "html-wiki-authentication-"))
+  const userStorePath = join(directory, ".wiki", "users.json")
+  assert.deepEqual(await readUserStore(userStorePath), { users: {} })
+  await addUser({ userStorePath, username: "alice", password: "secret" })
+
+  const port = 3002
+  const fileCache = await buildCache({
+    searchDirectories: [directory, configuredFiles.coreDirectory],
+  })
+  const server = await createServer({
+    port,
+    fileCache,
+    userStorePath,
+    // As if behind a proxy on this machine
+    trustProxy: "loopback",
+  })
+  const request = (path: string, init: RequestInit = {}) =>
+    fetch(`http://localhost:${port}${path}`, { redirect: "manual", ...init })
+  // Forms send back the token from the cookie, like a browser would
+  const cookiesFrom = (response: Response) =>
+    response.headers.getSetCookie().map((cookie) => cookie.split(";")[0])
+  const csrfTokenFrom = (cookies: Array<string>) =>
+    cookies
+      .find((cookie) => cookie.startsWith(`${csrfCookieName}=`))!
+      .split("=")[1]
+  const post = (
+    path: string,
+    cookies: Array<string>,
+    body: Record<string, string> = {},
+  ) =>
+    request(path, {
+      method: "POST",
+      body: new URLSearchParams({ csrfToken: csrfTokenFrom(cookies), ...body }),
+      headers: {
+        cookie: cookies.join("; "),
+        "x-forwarded-for": "203.0.113.7",
+      },
+    })
+  const createBody = { contentPath: "/page.md", content: "# Page" }
+
+  try {
+    const home = await request("/")
+    assert.equal(home.status, 200)
+    const anonymousCookies = cookiesFrom(home)
+    const homeDom = parse(await home.text())
+    assert.ok(!homeDom.querySelector('a[href="?edit"]'), "No edit link")
+    assert.ok(homeDom.querySelector('a[href="/system/actions/login.html"]'))
+
+    const anonymousCreate = await post("/?create", anonymousCookies, createBody)
+    assert.equal(anonymousCreate.status, 401)
+    assert.ok(parse(await anonymousCreate.text()).querySelector("[role=alert]"))
+    assert.equal((await request("/index.html?edit")).status, 401)
+    // Files aren't even taken from them
+    const uploadBody = new FormData()
+    uploadBody.append("csrfToken", csrfTokenFrom(anonymousCookies))
+    uploadBody.append("file", new Blob(["Hi"]), "upload.txt")
+    const anonymousUpload = await request("/?upload", {
+      method: "POST",
+      body: uploadBody,
+      headers: { cookie: anonymousCookies.join("; ") },
+    })
+    assert.equal(anonymousUpload.status, 401)
+    assert.ok(!fileCache.getByContentPath("/assets/upload.txt"))
+    // Nor can what they render change anything
+    const write = `fileCache.createFileAndDirectories({ contentPath: "/pwned.html", content: "anon" })`
+    const playground = await request(
+      `${configuredFiles.queryPageTemplate}?query=${encodeURIComponent(write)}`,
+    )
+    assert.match(await playground.text(), /Only people who can make changes/)
+    assert.ok(!fileCache.getByContentPath("/pwned.html"))
+
+    // Pretending to be logged in with parameters doesn't work
+    const spoofed = await post(
+      "/?create&canEdit=true&username=alice",
+      anonymousCookies,
+      createBody,
+    )
+    assert.equal(spoofed.status, 401)
+
+    const wrongPassword = await post("/?login", anonymousCookies, {
+      username: "alice",
+      password: "wrong",
+    })
+    assert.equal(wrongPassword.status, 401)
+    assert.deepEqual(wrongPassword.headers.getSetCookie(), [])
+
+    // Another site can't log someone in without the token
+    const forgedLogIn = await request("/?login", {
+      method: "POST",
+      body: new URLSearchParams({ username: "alice", password: "secret" }),
+      headers: { cookie: anonymousCookies.join("; ") },
+    })
+    assert.equal(forgedLogIn.status, 403)
+
+    const logIn = await post("/?login", anonymousCookies, {
+      username: "alice",
+      password: "secret",
+      redirect: "//elsewhere.example",
+    })
+    assert.equal(logIn.status, 303)
+    assert.equal(logIn.headers.get("location"), "/")
+    const cookies = cookiesFrom(logIn)
+    assert.ok(cookies.some((cookie) => /^htmlWikiSession=/.test(cookie)))
+    // A new token for the new session
+    assert.notEqual(csrfTokenFrom(cookies), csrfTokenFrom(anonymousCookies))
+    const cookie = cookies.join("; ")
+
+    const loggedInHome = parse(
+      await (await request("/", { headers: { cookie } })).text(),
+    )
+    assert.ok(loggedInHome.querySelector('a[href="?edit"]'))
+    assert.match(loggedInHome.querySelector("nav")!.innerText, /alice/)
+
+    // Logged in, but from another site
+    const forgedCreate = await request("/?create", {
+      method: "POST",
+      body: new URLSearchParams(createBody),
+      headers: { cookie },
+    })
+    assert.equal(forgedCreate.status, 403)
+    assert.ok(!fileCache.getByContentPath("/page.md"))
+
+    const create = await post("/?create", cookies, createBody)
+    assert.equal(create.status, 303)
+    assert.ok(fileCache.getByContentPath("/page.md"))
+    const [created] = await fileCache.getAuditRecords({
+      contentPath: "/page.md",
+    })
+    assert.equal(created.username, "alice")
+    assert.equal(created.clientAddress, "203.0.113.7")
+
+    // Only editors see the details of errors
+    const brokenPage = await post("/?create", cookies, {
+      contentPath: "/broken.html",
+      content: "<p><query-content q='secretParameter.x'></query-content></p>",
+    })
+    assert.equal(brokenPage.status, 303)
+    const editorError = await request("/broken.html", { headers: { cookie } })
+    assert.equal(editorError.status, 522)
+    assert.match(await editorError.text(), /secretParameter/)
+    const anonymousError = await request("/broken.html")
+    assert.equal(anonymousError.status, 522)
+    const anonymousErrorText = await anonymousError.text()
+    assert.doesNotMatch(anonymousErrorText, /secretParameter/)
+    assert.match(anonymousErrorText, /[0-9a-f]{8}-[0-9a-f]{4}-/, "Has UUID")
+    await post("/?create", cookies, {
+      contentPath: "/writing.html",
+      content: `<p><query-content q='${write}'></query-content></p>`,
+    })
+    assert.equal((await request("/writing.html")).status, 522)
+    assert.ok(!fileCache.getByContentPath("/pwned.html"))
+    // And how pages rendered
+    const traceOf = async (init?: RequestInit) =>
+      parse(await (await request("/page.md?trace", init)).text()).querySelector(
+        "details[render-trace]",
+      )
+    assert.ok(await traceOf({ headers: { cookie } }))
+    assert.equal(await traceOf(), null)
+
+    await post("/?logout", cookies)
+    const afterLogOut = await post("/page.md?delete&delete-confirm", cookies)
+    assert.equal(afterLogOut.status, 401)
+  } finally {
+    server.cleanup()
+    await rm(directory, { recursive: true })
+  }
+})
@@ -11,8 +11,12 @@ import {
   setEachParameterWithSource,
 } from "./engine.mts"
 import debug from "debug"
-import { configuredFiles } from "./configuration.mts"
+import { configuredFiles, settings } from "./configuration.mts"
 import { buildCache } from "./fileCache.mts"
+import { addUser } from "./authentication.mts"
+import { formatDiagnostic, lint } from "./lint.mts"
+import { createInterface } from "node:readline/promises"
+import { stdin, stdout } from "node:process"
 const log = debug("cli:main")
 
 let server: Awaited<ReturnType<typeof createServer>>
@@ -44,6 +48,18 @@ const getSearchDirectoriesFromOptions = (options: {
   return { userDirectory, coreDirectory, searchDirectories }
 }
 
+// As Express takes it, a number of hops, or addresses and subnets
+const parseTrustProxy = (value: string | undefined) => {
+  if (value === undefined) return undefined
+  if (/^\d+$/.test(value)) return Number(value)
+  if (value === "true" || value === "false") return value === "true"
+  return value
+}
+
+const restrictedQueriesFlag = "--restricted-queries"
+const restrictedQueriesDescription =
+  "only let queries use what the wiki gives them, not all of JavaScript"
+
 const program = new Command().description("HTML Wiki command line tool")
 program
   .command("server")
@@ -51,8 +67,19 @@ program
   .option("-c, --core-directory <string>", "where to read core files", "")
   .option("-u, --user-directory <string>", "where to read user files")
   .option("--port <number>")
+  .option(
+    "--user-store <string>",
+    "JSON file of users who can log in to make changes, anyone can if not given",
+  )
   .option("--ignore-errors")
+  .option("--dev-mode", "show error details to everyone, not only editors")
+  .option(
+    "--trust-proxy <string>",
+    "behind a proxy, how many hops or which addresses to trust for where requests came from",
+  )
+  .option(restrictedQueriesFlag, restrictedQueriesDescription)
   .action(async (options) => {
+    settings.restrictedQueries = options.restrictedQueries === true
     const { searchDirectories, userDirectory, coreDirectory } =
       getSearchDirectoriesFromOptions(options)
     log({ options, searchDirectories, userDirectory, coreDirectory })
@@ -121,9 +148,29 @@ program
     server = await createServer({
       port,
       fileCache,
+      userStorePath: options.userStore,
+      devMode: options.devMode,
+      trustProxy: parseTrustProxy(options.trustProxy),
     })
   })
 
+program
+  .command("add-user")
+  .description("add a user who can log in, or change their password")
+  .argument("<username>")
+  .requiredOption("--user-store <string>", "JSON file of users")
+  .option("--password <string>", "prompted for if not given")
+  .action(async (username, options) => {
+    let password = options.password
+    if (password === undefined) {
+      const prompt = createInterface({ input: stdin, output: stdout })
+      password = await prompt.question(`Password for ${username}: `)
+      prompt.close()
+    }
+    await addUser({ userStorePath: options.userStore, username, password })
+    console.log(`Saved user ${username} to ${options.userStore}`)
+  })
+
 program
   .command("generate")
   .description("render and write out a static version of the site")
@@ -131,7 +178,9 @@ program
   .option("-u, --user-directory <string>", "where to read user files")
   .option("-o, --out-directory <string>", "where to write files", "./build")
   .option("-w, --watch", "watch source files and rebuild", false)
+  .option(restrictedQueriesFlag, restrictedQueriesDescription)
   .action(async (options) => {
+    settings.restrictedQueries = options.restrictedQueries === true
     const { searchDirectories, userDirectory, coreDirectory } =
       getSearchDirectoriesFromOptions(options)
     log({ options, searchDirectories, userDirectory, coreDirectory })
@@ -148,8 +197,12 @@ program
     })
     const destinationFileCache = await buildCache({
       searchDirectories: [outDirectory],
+      keepHistory: false,
+      keepAuditLog: false,
     })
-    const files = (await sourceFileCache.getListOfFilesAndDetails()).map(
+    // Private entries aren't published, and aren't listed on published pages
+    const publicFileCache = sourceFileCache.withoutPrivate()
+    const files = (await publicFileCache.getListOfFilesAndDetails()).map(
       ({ contentPath }) => contentPath,
     )
 
@@ -168,18 +221,21 @@ program
       )
       let outputPath = contentPath
       let outputContent: Buffer | string
-      const { renderability } = sourceFileCache.getByContentPath(contentPath)!
+      const entry = publicFileCache.getByContentPath(contentPath)
+      if (!entry) {
+        log(`Not writing private ${contentPath}`)
+        return
+      }
+      const { renderability } = entry
       switch (renderability) {
         case "static":
-          outputContent =
-            sourceFileCache.getByContentPath(contentPath)?.originalContent
-              .buffer!
+          outputContent = entry.originalContent.buffer
           break
         case "html":
         case "markdown":
           const readResult = await execute({
             parameters: readParameters,
-            fileCache: sourceFileCache,
+            fileCache: publicFileCache,
           })
           outputContent = readResult.content
           if (renderability === "markdown")
@@ -285,6 +341,26 @@ program
     }
   })
 
+program
+  .command("lint")
+  .description(
+    "check every entry's templates and queries, and links to missing entries",
+  )
+  .option("-c, --core-directory <string>", "where to read core files", "")
+  .option("-u, --user-directory <string>", "where to read user files")
+  .action(async (options) => {
+    const { searchDirectories } = getSearchDirectoriesFromOptions(options)
+    const fileCache = await buildCache({ searchDirectories })
+    const diagnostics = await lint({ fileCache })
+    diagnostics.forEach((diagnostic) =>
+      console.log(formatDiagnostic(diagnostic)),
+    )
+    if (diagnostics.length > 0) {
+      console.log(`${diagnostics.length} problems found`)
+      process.exitCode = 1
+    }
+  })
+
 program.parse()
 
 function ignoreErrors() {
@@ -311,4 +387,11 @@ const setupWatcher = ({
   new Watcher(searchDirectories, {
     recursive: true,
     ignoreInitial: true,
+    // Changes to the wiki's own data, e.g. history, are never entries
+    ignore: (targetPath: string) =>
+      searchDirectories.some((directory) =>
+        targetPath.startsWith(
+          normalize(`${directory}${configuredFiles.wikiDataDirectory}`),
+        ),
+      ),
   })
@@ -10,6 +10,9 @@ export const configuredFiles = {
   documentationDirectory,
   coreDirectory,
   defaultPageTemplate: "/system/templates/global-page.html",
+  // In any directory, the layout for entries in it and below which don't name
+  // one with `layout` metadata
+  directoryLayout: "_layout.html",
   rootIndexHtml: "/index.html",
   testMarkdownFile: "/fixtures/test.md",
   testMarkdownFileWithSpaceInName: "/fixtures/file with a space in the name.md",
@@ -28,7 +31,40 @@ export const configuredFiles = {
   fileMissingPageTemplate: "/404.html",
   unknownErrorOccurredTemplate: "/system/templates/unknown-error.html",
   sitemapTemplate: "/sitemap.html",
+  historyPageTemplate: "/system/templates/history.html",
+  conflictPageTemplate: "/system/templates/conflict.html",
+  movePageTemplate: "/system/templates/move.html",
+  readonlyPageTemplate: "/system/templates/readonly.html",
+  // Entries defining custom elements, e.g. `<note-card>` is note-card.html
+  componentsDirectory: "/system/components",
+  uploadedPageTemplate: "/system/actions/upload.html",
+  defaultUploadDirectory: "/assets",
+  loginPage: "/system/actions/login.html",
+  sharedFilesDirectory: "/assets/shared",
+  // Data the wiki keeps about its entries, e.g. revision history. Lives in the
+  // user directory but is never listed, served, or indexed as entries
+  wikiDataDirectory: "/.wiki",
+  historyDirectory: "/.wiki/history",
+  auditLog: "/.wiki/audit.jsonl",
+  privateRules: "/.wiki/private.txt",
+  auditLogPage: "/system/audit-log.html",
   // NOTE: If you change this, must be updated in site.webmanifest
   // and that will require anyone who has installed the app to re-install
   sharedContentReceiver: "/system/shared-content-receiver.html",
 }
+
+// Choices of the wiki owner, e.g. from command line options
+export const settings = {
+  // Queries may only use what's given to them, not everything JavaScript can,
+  // see `pString`. For wikis where not every editor is trusted with the server
+  restrictedQueries: false,
+  // How many pages deep `render()` may go, e.g. a page rendering a page
+  // rendering a page is 3 deep
+  maxRenderDepth: 32,
+  // How long a single query may take before giving up on the request. Zero
+  // means no limit
+  queryTimeoutMs: 10_000,
+  // Uploads and shares are held in memory until they're written, so bounded
+  maxUploadBytes: 10 * 1024 * 1024,
+  maxUploadFiles: 10,
+}
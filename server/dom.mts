@@ -3,27 +3,155 @@ import { parse as parseHtml } from "node-html-parser"
 import {
   AnswerError,
   type AnswerErrorFileLocation,
+  MissingFileQueryError,
   QueryError,
+  RenderBudgetQueryError,
   UsageError,
 } from "./error.mts"
-import { buildMyServerPStringContext, pString } from "./queryLanguage.mts"
+import {
+  buildMyServerPStringContext,
+  pString,
+  renderer,
+} from "./queryLanguage.mts"
 import { escapeHtml } from "./utilities.mts"
 import {
+  createChildScope,
   maybeStringParameterValue,
   type ParameterValue,
+  setEachParameterWithSource,
   setParameterWithSource,
   stringParameterValue,
 } from "./engine.mts"
 import debug from "debug"
 import { type FileCache } from "./fileCache.mts"
+import { configuredFiles, settings } from "./configuration.mts"
+import {
+  parseTransclusionSource,
+  selectElement,
+  selectSection,
+} from "./transclusion.mts"
+import { resultTypeOf, traceOf, type TraceLocation } from "./trace.mts"
 const log = debug("server:dom")
 export type Meta = Record<string, string | string[]>
 
+// Whether a flag like `<meta itemprop="private" />` is set. HTML gives the
+// flag's name, frontmatter gives true, and "false" is false either way
+export const isMetaFlagSet = (meta: Meta, name: string) =>
+  meta[name] !== undefined && String(meta[name]) !== "false"
+
+// The pages being rendered, outermost first, with the parameters each was
+// rendered with
+export type RenderChain = Array<{
+  contentPath: string
+  parameters: ParameterValue
+}>
+
+// Add a page to the chain, or throw if that would go too deep, or would render
+// a page within itself with the same parameters, which would never end
+export const enterRender = (
+  renderChain: RenderChain,
+  contentPath: string,
+  parameters: ParameterValue,
+): RenderChain => {
+  const nextRenderChain = [...renderChain, { contentPath, parameters }]
+  const contentPaths = nextRenderChain.map(({ contentPath }) => contentPath)
+  if (
+    renderChain.some(
+      (outer) =>
+        outer.contentPath === contentPath &&
+        sameRenderParameters(outer.parameters, parameters),
+    )
+  ) {
+    throw new RenderBudgetQueryError(
+      508,
+      `'${contentPath}' renders itself forever`,
+      contentPaths,
+    )
+  }
+  if (nextRenderChain.length > settings.maxRenderDepth) {
+    throw new RenderBudgetQueryError(
+      508,
+      `Rendering went more than ${settings.maxRenderDepth} pages deep`,
+      contentPaths,
+    )
+  }
+  return nextRenderChain
+}
+
+// Shallow, because e.g. the sitemap renders itself for each directory with a
+// new `directoryContents` each time. `originalParameters` is always different
+const sameRenderParameters = (a: ParameterValue, b: ParameterValue) => {
+  const keys = (parameters: ParameterValue) =>
+    Object.keys(parameters).filter((key) => key !== "originalParameters")
+  const aKeys = keys(a)
+  return (
+    aKeys.length === keys(b).length &&
+    aKeys.every((key) => Object.hasOwn(b, key) && a[key] === b[key])
+  )
+}
+
+// Handled by `applyTemplating` itself, so entries can't define them
+export const builtInElements = new Set([
+  "MAP-LIST",
+  "QUERY-CONTENT",
+  "DEBUGGER-",
+  "SET-",
+  "LOAD-",
+  "DROP-IF",
+  "KEEP-IF",
+  "IF-",
+  "ELSE-IF-",
+  "ELSE-",
+  "SWITCH-",
+  "CASE-",
+  "DEFAULT-",
+  "TRANSCLUDE-",
+  "RENDER-",
+  "R-",
+  "SLOT-",
+])
+
+// Custom elements, which have a `-` in their name like `<note-card>`, may be
+// defined by an entry in `configuredFiles.componentsDirectory`
+export const componentContentPathFor = (
+  element: HTMLElement,
+  fileCache: FileCache,
+) => {
+  if (!element.tagName?.includes("-") || builtInElements.has(element.tagName))
+    return undefined
+  const contentPath = `${configuredFiles.componentsDirectory}/${element.tagName.toLowerCase()}.html`
+  return fileCache.getByContentPath(contentPath) ? contentPath : undefined
+}
+
+const requiredAttribute = (element: HTMLElement, name: string) => {
+  const value = element.getAttribute(name)
+  if (value === undefined) {
+    throw new UsageError(
+      `<${element.tagName.toLowerCase()}> requires a '${name}' attribute`,
+    )
+  }
+  return value
+}
+
+// Where lenient rendering skipped over a failing query
+const errorMarker = (error: AnswerError) =>
+  `<code template-error title="${escapeHtml(error.fileLocation.excerpt ?? error.failingQuery)}">${escapeHtml(`${error.message}: ${String(error.originalError)}`)}</code>`
+
+// In place of a transcluded entry which isn't there
+const missingTransclusionMarker = (src: string) =>
+  `<span missing-transclusion>Nothing to transclude from ${escapeHtml(src)}</span>`
+
+// Whitespace and comments, which may sit between branches of a conditional
+const isInsignificant = (node: Node) =>
+  node.nodeType === NodeType.COMMENT_NODE ||
+  (node.nodeType === NodeType.TEXT_NODE && node.rawText.trim() === "")
+
 export const applyTemplating = async (
   params: {
     fileCache: FileCache
     parameters: ParameterValue
     rootSelector?: string
+    renderChain?: RenderChain
   } & (
     | {
         content: string
@@ -36,44 +164,108 @@ export const applyTemplating = async (
   content: string
   meta: Meta
   links: Array<string>
+  // Skipped over by lenient rendering, see `markFailure`
+  errors: Array<AnswerError>
 }> => {
-  const { parameters, fileCache } = params
-  const getQueryValue = async (query: string) => {
+  const { parameters, fileCache, renderChain = [] } = params
+  const contentPath =
+    renderChain.at(-1)?.contentPath ??
+    ((parameters.contentPath ?? parameters.contentPathOrContentTitle) as
+      | string
+      | undefined) ??
+    "anonymous"
+  const trace = traceOf(parameters)
+  // Where the element is in the template, as best as can be told
+  const locate = (element: HTMLElement | undefined) => {
+    const location: AnswerErrorFileLocation = { line: -1 }
+    if (element?.range) {
+      // TODO: I don't think this makes sense for passed-in element but...
+      const stringifiedContent =
+        "content" in params ? params.content : root.toString()
+      const [startPos, _endPos] = element.range
+      // The count of all new lines before startPos
+      location.line =
+        stringifiedContent.slice(0, startPos).matchAll(/\n/g).toArray().length +
+        1
+      // Column is the distance between startPos and the most recent newline
+      const lastNewline = stringifiedContent
+        .slice(0, startPos)
+        .lastIndexOf("\n")
+      location.column =
+        lastNewline === -1 ? startPos : startPos - lastNewline - 1
+      const sourceLine = stringifiedContent
+        .slice(lastNewline + 1)
+        .split("\n", 1)[0]
+      location.excerpt = `${sourceLine}\n${" ".repeat(location.column)}^`
+    }
+    return location
+  }
+  const answerError = (query: string, error: unknown) =>
+    new AnswerError(
+      ((parameters.contentPath ?? parameters.contentPathOrContentTitle) as
+        | string
+        | undefined) ?? "anonymous",
+      locate(element),
+      query,
+      error,
+    )
+  // Locating scans the template, so only when it's wanted
+  const traceLocation = (): TraceLocation | undefined => {
+    if (!trace) return undefined
+    const { line } = locate(element)
+    return { contentPath, line: line === -1 ? undefined : line }
+  }
+  const getQueryValue = async (
+    query: string,
+    scope: ParameterValue = parameters,
+  ) => {
+    const start = performance.now()
     try {
-      return await pString(
+      const value = await pString(
         query,
         buildMyServerPStringContext({
-          parameters,
+          parameters: scope,
           fileCache,
+          renderChain,
         }),
       )
+      trace?.record({
+        kind: "query",
+        query,
+        resultType: resultTypeOf(value),
+        durationMs: performance.now() - start,
+        ...traceLocation(),
+      })
+      return value
     } catch (error) {
-      const location: AnswerErrorFileLocation = { line: -1 }
-      if (element?.range) {
-        // TODO: I don't think this makes sense for passed-in element but...
-        const stringifiedContent =
-          "content" in params ? params.content : root.toString()
-        const [startPos, _endPos] = element.range
-        // The count of all new lines before startPos
-        location.line =
-          stringifiedContent.slice(0, startPos).matchAll(/\n/g).toArray()
-            .length + 1
-        // Column is the distance between startPos and the most recent newline
-        const lastNewline = stringifiedContent
-          .slice(0, startPos)
-          .lastIndexOf("\n")
-        location.column =
-          lastNewline === -1 ? startPos : startPos - lastNewline - 1
+      if (error instanceof RenderBudgetQueryError) {
+        // Already says which pages, instead of wrapping once for each page
+        if (error.renderChain.length > 0) throw error
+        throw new RenderBudgetQueryError(
+          error.status,
+          error.reason,
+          renderChain.map(({ contentPath }) => contentPath),
+          error.originalError,
+        )
       }
-      throw new AnswerError(
-        ((parameters.contentPath ?? parameters.contentPathOrContentTitle) as
-          | string
-          | undefined) ?? "anonymous",
-        location,
-        query,
-        error,
-      )
+      throw answerError(query, error)
+    }
+  }
+  const lenient = parameters.lenient !== undefined
+  const errors: Array<AnswerError> = []
+  // With `lenient`, a query which fails leaves a marker in place of what it
+  // would have made, and rendering carries on. Returns the marker, or throws
+  // the error as usual
+  const markFailure = (error: unknown, query: string) => {
+    if (!lenient) throw error
+    if (error instanceof AnswerError) {
+      errors.push(error)
+    } else if (error instanceof RenderBudgetQueryError) {
+      errors.push(answerError(query, error))
+    } else {
+      throw error
     }
+    return errorMarker(errors.at(-1)!)
   }
   const meta: Meta = {}
   const links: Array<string> = []
@@ -94,12 +286,112 @@ export const applyTemplating = async (
     const selectedRoot = root.querySelector(
       stringParameterValue(parameters, "rootSelector"),
     )
-    if (!selectedRoot) return { content: "", meta, links }
+    if (!selectedRoot) return { content: "", meta, links, errors }
     root = selectedRoot
   }
 
   const treeWalker = new TreeWalker(root, NodeFilter.SHOW_ELEMENT)
 
+  // Put the children of the chosen element, or nothing, in place of the
+  // element, and continue the walk with them. Returns where the walk continues
+  const replaceWithChildrenOf = (
+    element: HTMLElement,
+    chosen: HTMLElement | undefined,
+  ) => {
+    element.set_content(chosen ? [...chosen.childNodes] : [])
+    const next = treeWalker.nextNode()
+    for (const childNode of element.childNodes.reverse()) {
+      element.after(childNode)
+    }
+    element.remove()
+    return next
+  }
+
+  // Part of this document, templated with its own scope of parameters
+  const applyTemplatingInScope = async (
+    content: string,
+    scope: ParameterValue,
+  ) => {
+    setEachParameterWithSource(
+      scope,
+      { rootSelector: undefined, select: undefined },
+      "derived",
+    )
+    const result = await applyTemplating({
+      fileCache,
+      content,
+      parameters: scope,
+      renderChain,
+    })
+    links.push(...result.links)
+    errors.push(...result.errors)
+    return result.content
+  }
+
+  // Put the children of the element in its place, templated with their own
+  // scope of parameters. Returns where the walk continues
+  const replaceWithScopedChildren = async (
+    element: HTMLElement,
+    scope: ParameterValue,
+  ) => {
+    const next = treeWalker.nextNodeNotChildren()
+    element.after(await applyTemplatingInScope(element.innerHTML, scope))
+    element.remove()
+    return next
+  }
+
+  // Put the entry defining a component in place of the element. Attributes
+  // become its parameters, `x-` attributes are queries like anywhere else.
+  // Children with a `slot` attribute go in the `<slot->` with that name, and
+  // the rest in the one without a name. They're templated as part of this
+  // document, not the component. Returns where the walk continues
+  const expandComponent = async (element: HTMLElement, contentPath: string) => {
+    const next = treeWalker.nextNodeNotChildren()
+    const componentParameters: ParameterValue = {}
+    for (const [key, value] of Object.entries(element.attributes)) {
+      const match = key.match(/^x-(.*)$/)
+      setParameterWithSource(
+        componentParameters,
+        match ? match[1] : key,
+        match ? await getQueryValue(value) : value,
+        "query param",
+      )
+    }
+    const rendered = parseHtml(
+      await renderer({ fileCache, parameters, renderChain })(
+        contentPath,
+        componentParameters,
+      ),
+    )
+
+    const slotted: Record<string, Array<Node>> = {}
+    for (const childNode of element.childNodes) {
+      const slotName =
+        childNode instanceof HTMLElement
+          ? (childNode.getAttribute("slot") ?? "")
+          : ""
+      slotted[slotName] ??= []
+      slotted[slotName].push(childNode)
+    }
+    for (const slot of rendered.querySelectorAll("slot-")) {
+      const childNodes = slotted[slot.getAttribute("name") ?? ""] ?? []
+      // Otherwise the slot's own content is the default
+      if (childNodes.every((childNode) => !childNode.toString().trim())) {
+        slot.replaceWith(slot.innerHTML)
+        continue
+      }
+      slot.replaceWith(
+        await applyTemplatingInScope(
+          childNodes.map((childNode) => childNode.toString()).join(""),
+          createChildScope(parameters),
+        ),
+      )
+    }
+    element.after(rendered.toString())
+    element.remove()
+    return next
+  }
+
   let element: HTMLElement
   do {
     alreadySetForNextIteration = null
@@ -110,6 +402,22 @@ export const applyTemplating = async (
     }
     element = treeWalker.currentNode as HTMLElement
 
+    const componentContentPath = componentContentPathFor(element, fileCache)
+    if (builtInElements.has(element.tagName) || componentContentPath) {
+      trace?.record({
+        kind: "tag",
+        tagName: element.tagName,
+        ...traceLocation(),
+      })
+    }
+    if (componentContentPath) {
+      alreadySetForNextIteration = await expandComponent(
+        element,
+        componentContentPath,
+      )
+      continue
+    }
+
     const attributeEntries = Object.entries(element.attributes)
     for (let i = 0; i < attributeEntries.length; i++) {
       const [key, value] = attributeEntries[i]
@@ -119,7 +427,18 @@ export const applyTemplating = async (
       }
       const isEscape = match[1] === "-escape"
       const realKey = match[2]
-      const queryValue = await getQueryValue(value)
+      let queryValue
+      try {
+        queryValue = await getQueryValue(value)
+      } catch (error) {
+        const marker = markFailure(error, value)
+        if (realKey === "content") {
+          element.innerHTML = marker
+        } else {
+          element.before(marker)
+        }
+        continue
+      }
       switch (realKey) {
         case "content":
           let valueToSet
@@ -177,6 +496,11 @@ export const applyTemplating = async (
           case "nocontainer":
             meta.nocontainer = "nocontainer"
             break
+          case "private":
+          case "readonly":
+            meta[element.attributes.itemprop] =
+              element.attributes.content ?? element.attributes.itemprop
+            break
           default:
             meta[element.attributes.itemprop] = element.attributes.content
             break
@@ -208,7 +532,16 @@ export const applyTemplating = async (
             )
           }
 
-          let queryValue = await getQueryValue(query)
+          let queryValue
+          try {
+            queryValue = await getQueryValue(query)
+          } catch (error) {
+            const marker = markFailure(error, query)
+            alreadySetForNextIteration = treeWalker.nextNodeNotChildren()
+            element.after(marker)
+            element.remove()
+            break
+          }
           if (!Array.isArray(queryValue)) {
             if (queryValue === undefined || queryValue === null) {
               queryValue = []
@@ -226,41 +559,46 @@ export const applyTemplating = async (
           const originalElementChildren = [...element.children]
           for (const index in queryValue.reverse()) {
             const current = queryValue[index]
-            const parameters: ParameterValue = {
-              ...topLevelParameters,
-              rootSelector: undefined,
-              select: undefined,
-            }
+            const parameters = createChildScope(topLevelParameters)
+            setEachParameterWithSource(
+              parameters,
+              { rootSelector: undefined, select: undefined },
+              "derived",
+            )
             setParameterWithSource(
               parameters,
               "list",
               queryValue,
               "query param",
+              traceLocation(),
+            )
+            setParameterWithSource(
+              parameters,
+              "index",
+              index,
+              "query param",
+              traceLocation(),
             )
-            setParameterWithSource(parameters, "index", index, "query param")
             setParameterWithSource(
               parameters,
               "currentListItem",
               current,
               "query param",
+              traceLocation(),
             )
-            // Even though we're going to place everything in
-            // reverse order (with .after()), start in-order for
-            // imperative templating logic like `set-`
-            const toPlace = []
-            for (const childElement of originalElementChildren) {
-              const childElementClone = childElement.clone() as HTMLElement
-              // This typing is just wrong. Null is perfectly valid
-              childElementClone.parentNode = element.parentNode
-              const { content } = await applyTemplating({
-                fileCache,
-                element: childElementClone,
-                parameters,
-              })
-              toPlace.push(content)
-            }
-
-            element.after(...toPlace)
+            // All together, so that e.g. an `else-` finds its `if-`. Parsed
+            // again rather than cloned, so that children which replace
+            // themselves, like components, have a parent to do it in
+            const { content, errors: childErrors } = await applyTemplating({
+              fileCache,
+              content: originalElementChildren
+                .map((childElement) => childElement.toString())
+                .join(""),
+              parameters,
+              renderChain,
+            })
+            errors.push(...childErrors)
+            element.after(content)
           }
           element.remove()
         }
@@ -282,7 +620,16 @@ export const applyTemplating = async (
           }
           const query = attributeEntries[0][1]
 
-          let queryValue = await getQueryValue(query)
+          let queryValue
+          try {
+            queryValue = await getQueryValue(query)
+          } catch (error) {
+            const marker = markFailure(error, query)
+            alreadySetForNextIteration = treeWalker.nextNodeNotChildren()
+            element.after(marker)
+            element.remove()
+            break
+          }
           if (!queryValue) {
             queryValue = element.innerHTML
           }
@@ -300,35 +647,50 @@ export const applyTemplating = async (
         break
       case "SET-":
         {
+          // Without `scope`, for everything after this in the document
+          const scope = element.hasAttribute("scope")
+            ? createChildScope(parameters)
+            : parameters
           for (const [parameterName, query] of Object.entries(
             element.attributes,
           )) {
-            let queryValue = await getQueryValue(query)
-            // TODO: This sets the parameter for everything after this,
-            // but it would be cool if parameters were a scope concept
-            // and this could createa new scope only for the processing
-            // of the contents of this tag
+            if (parameterName === "scope") continue
+            let queryValue = await getQueryValue(query, scope)
             setParameterWithSource(
-              parameters,
+              scope,
               parameterName,
               queryValue,
               "query param",
+              traceLocation(),
+            )
+          }
+          if (scope !== parameters) {
+            alreadySetForNextIteration = await replaceWithScopedChildren(
+              element,
+              scope,
             )
           }
         }
         break
       case "LOAD-":
         {
+          // Loading runs arbitrary code, the opposite of restricted queries
+          if (settings.restrictedQueries) {
+            throw new UsageError(
+              "<load-> isn't allowed with restricted queries",
+            )
+          }
+          // Without `scope`, for everything after this in the document
+          const scope = element.hasAttribute("scope")
+            ? createChildScope(parameters)
+            : parameters
           for (const [parameterName, contentPath] of Object.entries(
             element.attributes,
           )) {
+            if (parameterName === "scope") continue
             let queryValue = await getQueryValue(
               `fileCache.getByContentPathOrContentTitle('${contentPath}'),p=>p.actualPath`,
             )
-            // TODO: This sets the parameter for everything after this,
-            // but it would be cool if parameters were a scope concept
-            // and this could createa new scope only for the processing
-            // of the contents of this tag
             if (typeof queryValue !== "string") {
               throw new Error(
                 "<load-> attribute values must resolve to strings",
@@ -336,10 +698,17 @@ export const applyTemplating = async (
             }
             const result = await import(queryValue)
             setParameterWithSource(
-              parameters,
+              scope,
               parameterName,
               result,
               "query param",
+              traceLocation(),
+            )
+          }
+          if (scope !== parameters) {
+            alreadySetForNextIteration = await replaceWithScopedChildren(
+              element,
+              scope,
             )
           }
         }
@@ -383,6 +752,114 @@ export const applyTemplating = async (
           element.remove()
         }
         break
+      case "IF-":
+        {
+          // Along with the `else-if-`s and `else-` right after it. Only the
+          // first branch to pass stays
+          const branches = [element]
+          const siblings = element.parentNode.childNodes
+          for (const sibling of siblings.slice(siblings.indexOf(element) + 1)) {
+            if (isInsignificant(sibling)) continue
+            if (
+              !(sibling instanceof HTMLElement) ||
+              !["ELSE-IF-", "ELSE-"].includes(sibling.tagName)
+            ) {
+              break
+            }
+            if (branches.at(-1)!.tagName === "ELSE-") {
+              throw new UsageError(
+                `<${sibling.tagName.toLowerCase()}> can't come after <else->`,
+              )
+            }
+            branches.push(sibling)
+          }
+          let chosen: HTMLElement | undefined
+          for (const branch of branches) {
+            if (
+              branch.tagName === "ELSE-" ||
+              (await getQueryValue(requiredAttribute(branch, "test")))
+            ) {
+              chosen = branch
+              break
+            }
+          }
+          for (const branch of branches.slice(1)) branch.remove()
+          alreadySetForNextIteration = replaceWithChildrenOf(element, chosen)
+        }
+        break
+      case "ELSE-IF-":
+      case "ELSE-":
+        throw new UsageError(
+          `<${element.tagName.toLowerCase()}> must come right after <if-> or <else-if->`,
+        )
+      case "SWITCH-":
+        {
+          // The first case with a value equal to `on` stays, or the default
+          const on = await getQueryValue(requiredAttribute(element, "on"))
+          let chosen: HTMLElement | undefined
+          let defaultCase: HTMLElement | undefined
+          for (const childNode of element.childNodes) {
+            if (isInsignificant(childNode)) continue
+            if (
+              !(childNode instanceof HTMLElement) ||
+              !["CASE-", "DEFAULT-"].includes(childNode.tagName)
+            ) {
+              throw new UsageError(
+                "<switch-> may only contain <case-> and <default->",
+              )
+            }
+            if (childNode.tagName === "DEFAULT-") {
+              if (defaultCase) {
+                throw new UsageError("<switch-> may only have one <default->")
+              }
+              defaultCase = childNode
+            } else if (
+              !chosen &&
+              (await getQueryValue(requiredAttribute(childNode, "value"))) ===
+                on
+            ) {
+              chosen = childNode
+            }
+          }
+          alreadySetForNextIteration = replaceWithChildrenOf(
+            element,
+            chosen ?? defaultCase,
+          )
+        }
+        break
+      case "CASE-":
+      case "DEFAULT-":
+        throw new UsageError(
+          `<${element.tagName.toLowerCase()}> must be inside <switch->`,
+        )
+      case "TRANSCLUDE-":
+        {
+          const src = requiredAttribute(element, "src")
+          const { contentPathOrContentTitle, heading } =
+            parseTransclusionSource(src)
+          const selector = element.getAttribute("select")
+          let content: string
+          try {
+            // Like `render()`, which also catches entries transcluding each other
+            content = await renderer({ fileCache, parameters, renderChain })(
+              contentPathOrContentTitle,
+              { transcluded: "transcluded" },
+            )
+            if (heading) content = selectSection(content, heading)
+            if (selector) content = selectElement(content, selector)
+          } catch (error) {
+            // Missing, or private to whoever's reading, which is no reason to
+            // lose the page around it
+            if (!(error instanceof MissingFileQueryError)) throw error
+            content = lenient
+              ? markFailure(answerError(src, error), src)
+              : missingTransclusionMarker(src)
+          }
+          alreadySetForNextIteration = treeWalker.nextNodeNotChildren()
+          element.after(content)
+          element.remove()
+        }
+        break
       case "RENDER-":
       case "R-": {
         const attributeEntries = Object.entries(element.attributes)
@@ -418,47 +895,45 @@ export const applyTemplating = async (
                 const originalElementChildren = [...element.children]
                 for (const index in queryValue.reverse()) {
                   const current = queryValue[index]
-                  const parameters: ParameterValue = {
-                    ...topLevelParameters,
-                    rootSelector: undefined,
-                    select: undefined,
-                  }
+                  const parameters = createChildScope(topLevelParameters)
+                  setEachParameterWithSource(
+                    parameters,
+                    { rootSelector: undefined, select: undefined },
+                    "derived",
+                  )
                   setParameterWithSource(
                     parameters,
                     "list",
                     queryValue,
                     "query param",
+                    traceLocation(),
                   )
                   setParameterWithSource(
                     parameters,
                     "index",
                     index,
                     "query param",
+                    traceLocation(),
                   )
                   setParameterWithSource(
                     parameters,
                     "currentListItem",
                     current,
                     "query param",
+                    traceLocation(),
                   )
-                  // Even though we're going to place everything in
-                  // reverse order (with .after()), start in-order for
-                  // imperative templating logic like `set-`
-                  const toPlace = []
-                  for (const childElement of originalElementChildren) {
-                    const childElementClone =
-                      childElement.clone() as HTMLElement
-                    // This typing is just wrong. Null is perfectly valid
-                    childElementClone.parentNode = element.parentNode
-                    const { content } = await applyTemplating({
+                  // All together and parsed again, see map-list
+                  const { content, errors: childErrors } =
+                    await applyTemplating({
                       fileCache,
-                      element: childElementClone,
+                      content: originalElementChildren
+                        .map((childElement) => childElement.toString())
+                        .join(""),
                       parameters,
+                      renderChain,
                     })
-                    toPlace.push(content)
-                  }
-
-                  element.after(...toPlace)
+                  errors.push(...childErrors)
+                  element.after(content)
                 }
               }
               break
@@ -526,6 +1001,7 @@ export const applyTemplating = async (
         content: body.innerHTML,
         meta,
         links,
+        errors,
       }
     }
     if (!autoSelectBody) {
@@ -534,10 +1010,10 @@ export const applyTemplating = async (
         `parameters.select: '${selector}' did not match any elements`,
       )
     }
-    return { content: root.toString(), meta, links }
+    return { content: root.toString(), meta, links, errors }
   }
 
-  return { content: root.toString(), meta, links }
+  return { content: root.toString(), meta, links, errors }
 }
 
 export type Filter = (
@@ -8,7 +8,12 @@ import {
 import { parse } from "node-html-parser"
 import { applyTemplating } from "./dom.mts"
 import { html } from "./utilities.mts"
-import { buildEmptyCache } from "./fileCache.mts"
+import { buildCache, buildEmptyCache } from "./fileCache.mts"
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { createFileAndDirectories } from "./filesystem.mts"
+import { configuredFiles } from "./configuration.mts"
 
 async function applyTemplatingAndParse(
   parameters: ParameterValue,
@@ -245,3 +250,254 @@ test(
     assert.match($1("p").getAttribute("class")!, /bar value overwrites/)
   },
 )
+
+test(
+  "<set- scope> sets parameters only for its children",
+  { concurrency: true },
+  async () => {
+    const parameters = setEachParameterWithSource(
+      {},
+      { bar: "outer bar" },
+      "query param",
+    )
+    const input = html`<set- scope foo="'inner foo'" bar="foo + ' and bar'">
+        <span x-content="foo">Replaced</span>
+        <set- scope foo="'innermost foo'">
+          <em x-content="foo">Replaced</em>
+        </set->
+        <p x-class="bar">see attribute</p>
+        <set- baz="'unscoped baz'"></set->
+      </set->
+      <i x-content="typeof foo">Replaced</i>
+      <b x-content="bar">Replaced</b>
+      <u x-content="typeof baz">Replaced</u>`
+    const { $1, content } = await applyTemplatingAndParse(parameters, input)
+    assert.equal($1("span").innerText, "inner foo")
+    assert.equal($1("em").innerText, "innermost foo")
+    assert.equal($1("p").getAttribute("class"), "inner foo and bar")
+    assert.equal($1("i").innerText, "undefined")
+    assert.equal($1("b").innerText, "outer bar")
+    assert.equal($1("u").innerText, "undefined")
+    assert.doesNotMatch(content, /<set- scope/)
+    assert.deepEqual(Object.keys(parameters), ["bar"])
+  },
+)
+
+test(
+  "<set-> in one map-list item isn't seen by the next",
+  { concurrency: true },
+  async () => {
+    const input = html`<map-list q="['a', 'b']">
+      <div>
+        <span x-content="typeof seen">Replaced</span>
+        <set- seen="currentListItem"></set->
+      </div>
+    </map-list>`
+    const { $ } = await applyTemplatingAndParse({}, input)
+    assert.deepEqual(
+      $("span").map((span) => span.innerText),
+      ["undefined", "undefined"],
+    )
+  },
+)
+
+test(
+  "Components from entries expand with attributes and slots",
+  { concurrency: true },
+  async () => {
+    const directory = await mkdtemp(join(tmpdir(), "html-wiki-components-"))
+    try {
+      await createFileAndDirectories({
+        directory,
+        contentPath: `${configuredFiles.componentsDirectory}/note-card.html`,
+        content: html`<article>
+          <h2 x-content="title">Untitled</h2>
+          <slot-></slot->
+          <footer><slot- name="footer">No footer</slot-></footer>
+          <span x-content="typeof count">Replaced</span>
+          <i x-content="typeof who">Replaced</i>
+        </article>`,
+      })
+      const input = html`<set- who="'the caller'"></set->
+        <map-list q="['a', 'b']">
+          <note-card x-title="'Card ' + currentListItem" x-count="1">
+            <p x-content="who">Replaced</p>
+          </note-card>
+        </map-list>
+        <note-card title="Plain">
+          <em slot="footer" x-content="who">Replaced</em>
+        </note-card>
+        <other-element>Left alone</other-element>`
+      const result = await applyTemplating({
+        fileCache: await buildCache({ searchDirectories: [directory] }),
+        content: input,
+        parameters: {},
+      })
+      const dom = parse(result.content)
+      const articles = dom.querySelectorAll("article")
+      assert.deepEqual(
+        articles.map((article) => article.querySelector("h2")!.innerText),
+        ["Card a", "Card b", "Plain"],
+      )
+      assert.equal(articles[0].querySelector("p")!.innerText, "the caller")
+      assert.equal(articles[0].querySelector("footer")!.innerText, "No footer")
+      assert.equal(articles[0].querySelector("span")!.innerText, "number")
+      assert.equal(articles[0].querySelector("i")!.innerText, "undefined")
+      assert.equal(articles[2].querySelector("p"), null)
+      assert.equal(
+        articles[2].querySelector("footer em")!.innerText,
+        "the caller",
+      )
+      assert.equal(articles[2].querySelector("span")!.innerText, "undefined")
+      assert.doesNotMatch(result.content, /note-card|slot-/)
+      assert.equal(dom.querySelector("other-element")!.innerText, "Left alone")
+    } finally {
+      await rm(directory, { recursive: true })
+    }
+  },
+)
+
+test(
+  "Spreading parameters in a query includes those from outer scopes",
+  { concurrency: true },
+  async () => {
+    const input = html`<map-list q="['item']">
+      <span
+        x-content="Object.keys({...parameters}).filter(key => ['outer', 'currentListItem'].includes(key)).sort().join()"
+        >Replaced</span
+      >
+    </map-list>`
+    const { $1 } = await applyTemplatingAndParse(
+      setEachParameterWithSource({}, { outer: "outer" }, "query param"),
+      input,
+    )
+    assert.equal($1("span").innerText, "currentListItem,outer")
+  },
+)
+
+test(
+  "<if->, <else-if->, and <else-> keep only the first branch to pass",
+  { concurrency: true },
+  async () => {
+    const input = html`<map-list q="[1, 2, 3]">
+        <if- test="currentListItem === 1">
+          <b x-content="currentListItem">Replaced</b>
+        </if->
+        <!-- Comments between branches are fine -->
+        <else-if- test="currentListItem === 2">
+          <i x-content="currentListItem">Replaced</i>
+        </else-if->
+        <else->
+          <u x-content="currentListItem">Replaced</u>
+        </else->
+      </map-list>
+      <if- test="false"><s>Dropped</s></if->
+      <p>After</p>`
+    const { $, content } = await applyTemplatingAndParse({}, input)
+    assert.deepEqual(
+      $("b, i, u, s").map((element) => element.outerHTML),
+      [
+        `<b x-content="currentListItem">1</b>`,
+        `<i x-content="currentListItem">2</i>`,
+        `<u x-content="currentListItem">3</u>`,
+      ],
+    )
+    assert.match(content, /<p>After<\/p>/)
+    assert.doesNotMatch(content, /if-|else-/)
+  },
+)
+
+test(
+  "<switch-> keeps the first matching <case->, or <default->",
+  { concurrency: true },
+  async () => {
+    const input = html`<map-list q="['draft', 'published', 'other']">
+      <switch- on="currentListItem">
+        <case- value="'draft'"><b>Draft</b></case->
+        <case- value="'published'"><i>Published</i></case->
+        <case- value="'published'"><s>Never</s></case->
+        <default-><u x-content="currentListItem">Replaced</u></default->
+      </switch->
+    </map-list>`
+    const { $, content } = await applyTemplatingAndParse({}, input)
+    assert.deepEqual(
+      $("b, i, u, s").map((element) => element.innerText),
+      ["Draft", "Published", "other"],
+    )
+    assert.doesNotMatch(content, /switch-|case-|default-/)
+  },
+)
+
+test("Misplaced branches are usage errors", { concurrency: true }, async () => {
+  for (const [input, message] of [
+    [`<else->Alone</else->`, /<else-> must come right after <if->/],
+    [`<p>Hi</p><else-if- test="true"></else-if->`, /<else-if-> must come/],
+    [
+      `<if- test="false"></if-><else-></else-><else-></else->`,
+      /<else-> can't come after <else->/,
+    ],
+    [`<if->No test</if->`, /<if-> requires a 'test' attribute/],
+    [`<case- value="1"></case->`, /<case-> must be inside <switch->/],
+    [
+      `<switch- on="1"><p>Stray</p></switch->`,
+      /<switch-> may only contain <case-> and <default->/,
+    ],
+    [
+      `<switch- on="1"><default-></default-><default-></default-></switch->`,
+      /only have one <default->/,
+    ],
+  ] as const) {
+    await assert.rejects(
+      applyTemplatingAndParse({}, input),
+      (error: Error) => message.test(error.message),
+      input,
+    )
+  }
+})
+
+test(
+  "Lenient rendering marks failing queries and carries on",
+  { concurrency: true },
+  async () => {
+    const input = [
+      `<p x-content="missing.content">Content</p>`,
+      `<a x-href="alsoMissing.href">Link</a>`,
+      `<query-content q="nope()">Query</query-content>`,
+      `<map-list q="notAList.items"><b>Item</b></map-list>`,
+      `<map-list q="[1]"><i x-content="nested.value"></i></map-list>`,
+      `<p x-content="'Still here'"></p>`,
+    ].join("\n")
+    await assert.rejects(
+      applyTemplatingAndParse({}, input),
+      /Could not process query 'missing.content'/,
+    )
+
+    const { $, $1, content, errors } = await applyTemplatingAndParse(
+      { lenient: "lenient" },
+      input,
+    )
+    assert.deepEqual(
+      errors.map(({ failingQuery, fileLocation: { line } }) => [
+        failingQuery,
+        line,
+      ]),
+      [
+        ["missing.content", 1],
+        ["alsoMissing.href", 2],
+        ["nope()", 3],
+        ["notAList.items", 4],
+        ["nested.value", 1],
+      ],
+    )
+    assert.equal(
+      errors[1].fileLocation.excerpt,
+      `<a x-href="alsoMissing.href">Link</a>\n^`,
+    )
+    assert.equal($("[template-error]").length, 5)
+    assert.match($1("p [template-error]").innerText, /missing\.content/)
+    // Before the element with the failing attribute
+    assert.match(content, /alsoMissing\.href[^<]*<\/code><a [^>]*>Link<\/a>/)
+    assert.equal($("b").length, 0)
+    assert.equal($1("p:last-child").innerText, "Still here")
+  },
+)
@@ -1,12 +1,28 @@
 import { applyTemplating } from "./dom.mts"
 import debug from "debug"
+import { dirname, join } from "node:path/posix"
 import { escapeHtml } from "./utilities.mts"
+import {
+  appendToContent,
+  editMeta,
+  type MetaAction,
+  metaActions,
+  replaceElementContent,
+  rewriteLinks,
+} from "./entryEditing.mts"
 import { specialRenderMarkdown } from "./queryLanguage.mts"
 import { type FileCache } from "./fileCache.mts"
 import { staticContentTypes } from "./serverUtilities.mts"
 import { contentType } from "mime-types"
 import { configuredFiles } from "./configuration.mts"
-import { MissingFileQueryError } from "./error.mts"
+import {
+  type AnswerError,
+  ConflictQueryError,
+  MissingFileQueryError,
+  ReadonlyQueryError,
+  RenderBudgetQueryError,
+} from "./error.mts"
+import { summarizeValue, traceOf, type TraceLocation } from "./trace.mts"
 const log = debug("server:engine")
 
 // Parameters come in tagged with a source to enable specific diagnostic reports
@@ -21,6 +37,10 @@ export type Command =
   | "read" // Get file contents
   | "update" // Write to an existing file
   | "delete" // Delete
+  | "move" // Rename a file and point links at its new path
+  | "append" // Add to the end of a file, creating it if necessary
+  | "patch" // Replace the content of one element of an HTML file
+  | "meta" // Change one metadata field of a file
 
 export const Status = {
   ServerError: 500, // Mysterious/hidden error
@@ -38,6 +58,8 @@ export type Result = {
   // The content path which was acted on
   contentPath?: string
   contentType: string
+  // Failing queries which lenient rendering skipped over
+  errors?: Array<AnswerError>
 }
 export const execute = async ({
   parameters,
@@ -68,7 +90,12 @@ export const execute = async ({
     const derivedContentPath = fileCache.getByContentPathOrContentTitle(
       contentPathOrContentTitle,
     )?.contentPath
-    if (!derivedContentPath) {
+    if (!derivedContentPath && parameters.command === "append") {
+      // Appending to an entry which doesn't exist yet creates it
+      const decoded = decodeURIComponent(contentPathOrContentTitle)
+      parameters.contentPath =
+        decoded.charAt(0) === "/" ? decoded : "/" + decoded
+    } else if (!derivedContentPath) {
       throw new MissingFileQueryError(contentPathOrContentTitle)
     } else {
       parameters.contentPath = derivedContentPath
@@ -81,6 +108,14 @@ export const execute = async ({
   if (!command) {
     validationIssues.push(`command must be one of ${commands}`)
   }
+  if (command && mutatingCommands.includes(command)) {
+    // Set by the server, see `sessionParameters`
+    fileCache = fileCache.auditedAs({
+      command,
+      clientAddress: maybeStringParameterValue(parameters, "clientAddress"),
+      username: maybeStringParameterValue(parameters, "username"),
+    })
+  }
   switch (command) {
     case "create": {
       if (!parameters.content) {
@@ -115,6 +150,7 @@ export const execute = async ({
         stringParameterValue(parameters, "contentPath"),
       )
       let content
+      let errors: Array<AnswerError> = []
       let nocontainer = parameters.nocontainer !== undefined
       if (parameters.raw !== undefined) {
         if (parameters.escape !== undefined) {
@@ -140,8 +176,15 @@ export const execute = async ({
           fileCache,
           content: originalContentContent,
           parameters: parameters,
+          renderChain: [
+            {
+              contentPath: stringParameterValue(parameters, "contentPath"),
+              parameters,
+            },
+          ],
         })
         content = templateApplicationResults.content
+        errors = templateApplicationResults.errors
         if (templateApplicationResults.meta.nocontainer) nocontainer = true
       }
       let resultContentType =
@@ -149,13 +192,34 @@ export const execute = async ({
           stringParameterValue(parameters, "contentPath").match(/\.[^.]+$/)![0],
         ) || staticContentTypes.plainText
       if (!nocontainer) {
+        const layout = layoutFor(
+          fileCache,
+          stringParameterValue(parameters, "contentPath"),
+        )
+        // Layouts are read like any page, so they may have layouts of their
+        // own, until one with `nocontainer` like the global page
+        const layoutChain = [
+          ...((parameters.layoutChain as Array<string> | undefined) ?? [
+            stringParameterValue(parameters, "contentPath"),
+          ]),
+          layout,
+        ]
+        if (layoutChain.indexOf(layout) !== layoutChain.length - 1) {
+          throw new RenderBudgetQueryError(
+            508,
+            "Layouts wrap each other",
+            layoutChain,
+          )
+        }
         const containerExecuteResults = await execute({
           fileCache,
           parameters: {
-            originalParameters: parameters,
+            // Always the page which was asked for, however deep the layout
+            originalParameters: parameters.originalParameters ?? parameters,
             command: "read",
-            contentPath: configuredFiles.defaultPageTemplate,
+            contentPath: layout,
             content,
+            layoutChain,
           },
         })
         content = containerExecuteResults.content
@@ -165,6 +229,7 @@ export const execute = async ({
         status: Status.OK,
         content,
         contentType: resultContentType,
+        errors,
       }
     }
     case "update": {
@@ -173,6 +238,11 @@ export const execute = async ({
       }
       if (validationIssues.length > 0)
         return validationErrorResponse(validationIssues)
+      assertNotReadonly(
+        fileCache,
+        stringParameterValue(parameters, "contentPath"),
+      )
+      assertNotConflicting(parameters, fileCache)
       await fileCache.updateFile({
         contentPath: stringParameterValue(parameters, "contentPath"),
         content: stringParameterValue(parameters, "content"),
@@ -187,6 +257,10 @@ export const execute = async ({
     case "delete": {
       if (validationIssues.length > 0)
         return validationErrorResponse(validationIssues)
+      assertNotReadonly(
+        fileCache,
+        stringParameterValue(parameters, "contentPath"),
+      )
       await fileCache.removeFile({
         contentPath: stringParameterValue(parameters, "contentPath"),
       })
@@ -196,6 +270,174 @@ export const execute = async ({
         contentType: staticContentTypes.plainText,
       }
     }
+    case "move": {
+      if (!maybeStringParameterValue(parameters, "newContentPath")) {
+        validationIssues.push("newContentPath required")
+      } else if (
+        stringParameterValue(parameters, "newContentPath").charAt(0) !== "/"
+      ) {
+        setParameterWithSource(
+          parameters,
+          "newContentPath",
+          "/" + stringParameterValue(parameters, "newContentPath"),
+          "derived",
+        )
+      }
+      if (validationIssues.length > 0)
+        return validationErrorResponse(validationIssues)
+      const contentPath = stringParameterValue(parameters, "contentPath")
+      const newContentPath = stringParameterValue(parameters, "newContentPath")
+      assertNotReadonly(fileCache, contentPath)
+      // Get these before moving, they're indexed by the old path
+      const backlinks = new Set(
+        await fileCache.getBacklinksByContentPath(contentPath),
+      )
+      await fileCache.moveFile({ contentPath, newContentPath })
+
+      let rewrittenCount = 0
+      // Links in these still go to the old path, to be fixed by hand
+      const readonlyLinking: Array<string> = []
+      for (const backlink of backlinks) {
+        const linkingContentPath =
+          backlink === contentPath ? newContentPath : backlink
+        const linkingEntry = fileCache.getByContentPath(linkingContentPath)
+        if (!linkingEntry) continue
+        if (fileCache.isCoreFile(linkingEntry)) {
+          log(`Not rewriting links in core file ${linkingContentPath}`)
+          continue
+        }
+        const rewritten = rewriteLinks({
+          content: linkingEntry.originalContent.content,
+          renderability: linkingEntry.renderability,
+          from: contentPath,
+          to: newContentPath,
+        })
+        if (rewritten === linkingEntry.originalContent.content) continue
+        if (fileCache.isReadonly(linkingEntry)) {
+          log(`Not rewriting links in read-only ${linkingContentPath}`)
+          readonlyLinking.push(linkingContentPath)
+          continue
+        }
+        await fileCache.updateFile({
+          contentPath: linkingContentPath,
+          content: rewritten,
+        })
+        rewrittenCount++
+      }
+      return {
+        status: Status.OK,
+        content: `File ${contentPath} moved to <a href="${newContentPath}">${newContentPath}</a> successfully, updating links in ${rewrittenCount} ${rewrittenCount === 1 ? "entry" : "entries"}${readonlyLinking.length > 0 ? `, but not in read-only ${readonlyLinking.map((path) => `<a href="${path}">${path}</a>`).join(", ")}` : ""}`,
+        contentPath: newContentPath,
+        contentType: staticContentTypes.plainText,
+      }
+    }
+    case "append": {
+      if (!parameters.content) {
+        validationIssues.push("content required")
+      }
+      if (validationIssues.length > 0)
+        return validationErrorResponse(validationIssues)
+      const contentPath = stringParameterValue(parameters, "contentPath")
+      const addition = stringParameterValue(parameters, "content")
+      const existing = fileCache.getByContentPath(contentPath)
+      if (existing && fileCache.isCoreFile(existing)) {
+        throw new Error(`Can't append to core file ${contentPath}`)
+      } else if (existing && fileCache.isReadonly(existing)) {
+        throw new ReadonlyQueryError(contentPath)
+      } else if (!existing) {
+        await fileCache.createFileAndDirectories({
+          contentPath,
+          content: addition,
+        })
+      } else {
+        await fileCache.updateFile({
+          contentPath,
+          content: appendToContent({
+            content: existing.originalContent.content,
+            renderability: existing.renderability,
+            addition,
+            selector:
+              maybeStringParameterValue(parameters, "selector") || undefined,
+          }),
+        })
+      }
+      return {
+        status: Status.OK,
+        content: `Added to <a href="${contentPath}">${contentPath}</a> successfully`,
+        contentPath,
+        contentType: staticContentTypes.plainText,
+      }
+    }
+    case "patch": {
+      if (!maybeStringParameterValue(parameters, "selector")) {
+        validationIssues.push("selector required")
+      }
+      if (typeof parameters.content !== "string") {
+        validationIssues.push("content required")
+      }
+      if (validationIssues.length > 0)
+        return validationErrorResponse(validationIssues)
+      const contentPath = stringParameterValue(parameters, "contentPath")
+      const existing = fileCache.ensureByContentPath(contentPath)
+      if (fileCache.isCoreFile(existing)) {
+        throw new Error(`Can't patch core file ${contentPath}`)
+      }
+      assertNotReadonly(fileCache, contentPath)
+      if (existing.renderability !== "html") {
+        return validationErrorResponse([
+          `Only HTML entries can be patched, ${contentPath} is ${existing.renderability}`,
+        ])
+      }
+      const patched = replaceElementContent({
+        content: existing.originalContent.content,
+        selector: stringParameterValue(parameters, "selector"),
+        replacement: stringParameterValue(parameters, "content"),
+      })
+      // On conflict, offer the whole page with the patch applied to merge
+      assertNotConflicting(parameters, fileCache, patched)
+      await fileCache.updateFile({ contentPath, content: patched })
+      return {
+        status: Status.OK,
+        content: `File <a href="${contentPath}">${contentPath}</a> updated successfully`,
+        contentPath,
+        contentType: staticContentTypes.plainText,
+      }
+    }
+    case "meta": {
+      const metaAction = maybeStringParameterValue(parameters, "metaAction")
+      if (!maybeStringParameterValue(parameters, "metaName")) {
+        validationIssues.push("metaName required")
+      }
+      if (!metaActions.includes(metaAction as MetaAction)) {
+        validationIssues.push(`metaAction must be one of ${metaActions}`)
+      }
+      if (validationIssues.length > 0)
+        return validationErrorResponse(validationIssues)
+      const contentPath = stringParameterValue(parameters, "contentPath")
+      const existing = fileCache.ensureByContentPath(contentPath)
+      if (fileCache.isCoreFile(existing)) {
+        throw new Error(`Can't edit metadata of core file ${contentPath}`)
+      }
+      // Which is how the flag comes off
+      if (stringParameterValue(parameters, "metaName") !== "readonly") {
+        assertNotReadonly(fileCache, contentPath)
+      }
+      const edited = editMeta({
+        content: existing.originalContent.content,
+        renderability: existing.renderability,
+        name: stringParameterValue(parameters, "metaName"),
+        value: maybeStringParameterValue(parameters, "metaValue"),
+        action: metaAction as MetaAction,
+      })
+      assertNotConflicting(parameters, fileCache, edited)
+      await fileCache.updateFile({ contentPath, content: edited })
+      return {
+        status: Status.OK,
+        content: `Metadata of <a href="${contentPath}">${contentPath}</a> updated successfully`,
+        contentPath,
+        contentType: staticContentTypes.plainText,
+      }
+    }
     default:
       throw new Error(
         `Unhandled command '${stringParameterValue(parameters, "command")}'`,
@@ -203,12 +445,83 @@ export const execute = async ({
   }
 }
 
+// What to wrap a page in: the entry named by its `layout` metadata if there is
+// one, else the nearest directory layout in its directory or above, else the
+// global page
+const layoutFor = (fileCache: FileCache, contentPath: string): string => {
+  const entry = fileCache.getByContentPath(contentPath)
+  const layout = entry && maybeStringParameterValue(entry.meta, "layout")
+  if (layout) {
+    const layoutEntry = fileCache.getByContentPathOrContentTitle(layout)
+    if (layoutEntry) return layoutEntry.contentPath
+    // Still worth showing the page, e.g. while the layout is being written
+    log(`Layout '${layout}' of '${contentPath}' not found`)
+  }
+  for (let directory = dirname(contentPath); ; directory = dirname(directory)) {
+    const directoryLayout = join(directory, configuredFiles.directoryLayout)
+    // A directory's layout is wrapped by the one above it, not itself
+    if (
+      directoryLayout !== contentPath &&
+      fileCache.getByContentPath(directoryLayout)
+    ) {
+      return directoryLayout
+    }
+    if (directory === "/") return configuredFiles.defaultPageTemplate
+  }
+}
+
+// Entries flagged `readonly` only change once someone removes the flag
+const assertNotReadonly = (fileCache: FileCache, contentPath: string) => {
+  const existing = fileCache.getByContentPath(contentPath)
+  if (existing && fileCache.isReadonly(existing)) {
+    throw new ReadonlyQueryError(contentPath)
+  }
+}
+
+// When an edit says which version it started from, refuse it if the file has
+// changed since, otherwise the edit would silently undo someone else's
+const assertNotConflicting = (
+  parameters: ParameterValue,
+  fileCache: FileCache,
+  submittedContent: string = stringParameterValue(parameters, "content"),
+) => {
+  const previousContentHash = maybeStringParameterValue(
+    parameters,
+    "previousContentHash",
+  )
+  if (!previousContentHash) return
+  const contentPath = stringParameterValue(parameters, "contentPath")
+  const current = fileCache.ensureByContentPath(contentPath)
+  if (current.contentHash !== previousContentHash) {
+    throw new ConflictQueryError(contentPath, submittedContent)
+  }
+}
+
 export const validationErrorResponse = (validationIssues: Array<string>) => ({
   status: Status.ClientError,
   content: `Request wasn't valid, issues: ${validationIssues.join("; ")}.`,
   contentType: staticContentTypes.plainText,
 })
-const commands = ["create", "read", "update", "delete"] as const
+const commands = [
+  "create",
+  "read",
+  "update",
+  "delete",
+  "move",
+  "append",
+  "patch",
+  "meta",
+] as const
+// Commands which change files, as opposed to only reading them
+export const mutatingCommands: ReadonlyArray<Command> = [
+  "create",
+  "update",
+  "delete",
+  "move",
+  "append",
+  "patch",
+  "meta",
+]
 export const narrowStringToCommand: (
   maybeCommand: unknown,
 ) => Command | undefined = (maybeCommand) => {
@@ -226,11 +539,14 @@ export type ParameterSources =
   | "request body"
   | "url facts"
   | "server configured"
+  | "session"
 export const setParameterWithSource = (
   parameters: ParameterValue | string,
   key: keyof ParameterValue,
   value: ParameterValue[string],
   source: ParameterSources,
+  // In a template, for `?trace`
+  location?: TraceLocation,
 ): ParameterValue => {
   if (typeof parameters === "string")
     throw new Error(`Can't set parameter on ${parameters}`)
@@ -240,6 +556,13 @@ export const setParameterWithSource = (
       `Overwriting parameter '${String(key)}' to '${value}' (${source}) from '${original}' (original.source)`,
     )
   }
+  traceOf(parameters)?.record({
+    kind: "parameter",
+    key: String(key),
+    value: summarizeValue(value),
+    source,
+    ...location,
+  })
 
   parameters[key] = value
   return parameters
@@ -256,6 +579,19 @@ export const setEachParameterWithSource = (
   return parameters
 }
 
+// Parameters which only part of a template sees, e.g. the children of
+// `<set- scope>` or one item of a `<map-list>`. Reads fall through to the
+// parent, and setting a parameter, even to undefined, only affects the child
+export const createChildScope = (parameters: ParameterValue): ParameterValue =>
+  Object.create(parameters)
+
+// Every parameter visible in a scope, nearest scope first, as a plain object
+export const flattenScope = (parameters: ParameterValue): ParameterValue => {
+  const flattened: ParameterValue = {}
+  for (const key in parameters) flattened[key] = parameters[key]
+  return flattened
+}
+
 export const stringParameterValue = (
   parameterV: unknown,
   property: string,
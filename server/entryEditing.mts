@@ -0,0 +1,363 @@
+/**
+ * Surgical changes to the source of entries.
+ *
+ * Everything here edits the original text in place instead of parsing and
+ * re-stringifying whole documents, so that the formatting of everything which
+ * wasn't targeted survives untouched.
+ */
+import { type HTMLElement, parse as parseHtml } from "node-html-parser"
+import { type Renderability } from "./fileCache.mts"
+import { QueryError } from "./error.mts"
+import { escapeHtml } from "./utilities.mts"
+import YAML from "yaml"
+
+/**
+ * If href points at contentPath `from` (ignoring any query or hash), give the
+ * same href pointing at `to` instead. Keeps the href URI encoded if it was.
+ **/
+export const rewriteHref = (
+  href: string,
+  from: string,
+  to: string,
+): string | undefined => {
+  const [, path, suffix] = href.match(/^([^?#]*)(.*)$/s)!
+  let decoded
+  try {
+    decoded = decodeURIComponent(path)
+  } catch (error) {
+    return undefined
+  }
+  if (decoded !== from) return undefined
+  return (path === decoded ? to : encodeURI(to)) + suffix
+}
+
+/**
+ * Point every link to contentPath `from` at `to` instead. HTML anchors are
+ * rewritten in any entry; Markdown entries also get their inline links,
+ * reference link definitions, and wikilink-style shortcut references
+ * rewritten.
+ **/
+export const rewriteLinks = ({
+  content,
+  renderability,
+  from,
+  to,
+}: {
+  content: string
+  renderability: Renderability
+  from: string
+  to: string
+}): string => {
+  // Markdown can contain HTML, so do this for both
+  content = content.replaceAll(
+    /(<a\b[^>]*?\shref\s*=\s*)(?:"([^"]*)"|'([^']*)')/gi,
+    (match, prefix: string, doubleQuoted?: string, singleQuoted?: string) => {
+      const quote = doubleQuoted === undefined ? "'" : '"'
+      const rewritten = rewriteHref(doubleQuoted ?? singleQuoted!, from, to)
+      return rewritten === undefined
+        ? match
+        : `${prefix}${quote}${rewritten}${quote}`
+    },
+  )
+  if (renderability !== "markdown") return content
+
+  // Markdown destinations may only contain spaces inside angle brackets
+  const markdownDestination = (
+    match: string,
+    prefix: string,
+    bracketed?: string,
+    bare?: string,
+  ) => {
+    const rewritten = rewriteHref(bracketed ?? bare!, from, to)
+    if (rewritten === undefined) return match
+    return bracketed !== undefined || /[\s()<>]/.test(rewritten)
+      ? `${prefix}<${rewritten}>`
+      : `${prefix}${rewritten}`
+  }
+  return (
+    content
+      // Inline links and images, `[text](/path)`
+      .replaceAll(/(\]\(\s*)(?:<([^>\n]*)>|([^\s)]+))/g, markdownDestination)
+      // Reference link definitions, `[label]: /path`
+      .replaceAll(
+        /^( {0,3}\[[^\]\n]+\]:[ \t]*)(?:<([^>\n]*)>|(\S+))/gm,
+        markdownDestination,
+      )
+      // Shortcut references become links to their label, `[/path]`
+      .replaceAll(/\[([^\]\n]+)\](?![(:[])/g, (match, label: string) =>
+        label === from ? `[${to}]` : match,
+      )
+  )
+}
+
+/**
+ * Where the content of `element` sits in `content`, the source it was parsed
+ * from: between the end of its opening tag and the start of its closing tag.
+ * Undefined for void and unclosed elements, which have no such place.
+ **/
+export const elementContentRange = (
+  content: string,
+  element: HTMLElement,
+): [number, number] | undefined => {
+  const [start, end] = element.range
+  const source = content.slice(start, end)
+  const closingTag = source.match(/<\/[^<>]*>$/)
+  if (!closingTag) return undefined
+  // Find the end of the opening tag, skipping over any `>` in attribute values
+  let quote: string | undefined
+  for (let i = 1; i < source.length; i++) {
+    const char = source[i]
+    if (quote) {
+      if (char === quote) quote = undefined
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === ">") {
+      const contentStart = start + i + 1
+      const contentEnd = end - closingTag[0].length
+      return contentStart <= contentEnd ? [contentStart, contentEnd] : undefined
+    }
+  }
+  return undefined
+}
+
+/**
+ * Add `addition` to the end of an entry. With a selector, it goes at the end
+ * of the first matching element, e.g. as the last item of a list. Without
+ * one, HTML entries get it at the end of their `<body>` if they have one.
+ **/
+export const appendToContent = ({
+  content,
+  renderability,
+  addition,
+  selector,
+}: {
+  content: string
+  renderability: Renderability
+  addition: string
+  selector?: string
+}): string => {
+  if (!selector && renderability === "markdown") {
+    // Keep the addition a separate paragraph
+    const separator =
+      content === "" ? "" : content.endsWith("\n") ? "\n" : "\n\n"
+    return `${content}${separator}${addition}${addition.endsWith("\n") ? "" : "\n"}`
+  }
+  const root = parseHtml(content)
+  const element = root.querySelector(selector ?? "body")
+  if (!element) {
+    if (!selector) return `${content}${addition}`
+    throw new QueryError(400, `No element matches selector '${selector}'`)
+  }
+  const range = elementContentRange(content, element)
+  if (!range) {
+    throw new QueryError(
+      400,
+      `Can't add content inside the element matching '${selector ?? "body"}'`,
+    )
+  }
+  const [, contentEnd] = range
+  return `${content.slice(0, contentEnd)}${addition}${content.slice(contentEnd)}`
+}
+
+/**
+ * Replace the content of the first element matching `selector` with
+ * `replacement`, leaving the element itself and everything around it alone.
+ **/
+export const replaceElementContent = ({
+  content,
+  selector,
+  replacement,
+}: {
+  content: string
+  selector: string
+  replacement: string
+}): string => {
+  const element = parseHtml(content).querySelector(selector)
+  if (!element) {
+    throw new QueryError(400, `No element matches selector '${selector}'`)
+  }
+  const range = elementContentRange(content, element)
+  if (!range) {
+    throw new QueryError(
+      400,
+      `Can't replace content of the element matching '${selector}'`,
+    )
+  }
+  const [contentStart, contentEnd] = range
+  return `${content.slice(0, contentStart)}${replacement}${content.slice(contentEnd)}`
+}
+
+export type MetaAction = "set" | "add" | "remove"
+export const metaActions: ReadonlyArray<MetaAction> = ["set", "add", "remove"]
+
+/**
+ * Change one metadata field without touching the body of the entry: the
+ * `<meta itemprop>` tags in the head of HTML entries, or the YAML frontmatter
+ * of Markdown entries. "add" and "remove" treat the field as a list, which is
+ * comma separated in HTML. "remove" without a value removes the whole field.
+ **/
+export const editMeta = ({
+  content,
+  renderability,
+  name,
+  value,
+  action,
+}: {
+  content: string
+  renderability: Renderability
+  name: string
+  value?: string
+  action: MetaAction
+}): string => {
+  if (action === "remove" && value === "") value = undefined
+  if ((action === "set" || action === "add") && value === undefined) {
+    throw new QueryError(400, `A value is required to ${action} '${name}'`)
+  }
+  if (renderability === "markdown") {
+    return editFrontmatter({ content, name, value, action })
+  }
+  if (renderability !== "html") {
+    throw new QueryError(400, `Can't edit metadata of ${renderability} entries`)
+  }
+  return editMetaElements({ content, name, value, action })
+}
+
+const editFrontmatter = ({
+  content,
+  name,
+  value,
+  action,
+}: {
+  content: string
+  name: string
+  value?: string
+  action: MetaAction
+}): string => {
+  // Same boundaries as parseFrontmatter
+  const match = /^---\n(.|\n)*\n---\n/.test(content)
+    ? content.match(/^---\n((?:.|\n)*?)---\n/)
+    : null
+  let document: YAML.Document = YAML.parseDocument(match?.[1] ?? "")
+  if (document.contents === null) {
+    document = new YAML.Document({})
+  } else if (!YAML.isMap(document.contents)) {
+    throw new QueryError(400, "Frontmatter isn't a map of fields")
+  }
+  const restOfContent = match ? content.slice(match[0].length) : content
+  const existing = document.get(name, true)
+
+  switch (action) {
+    case "set":
+      document.set(name, value)
+      break
+    case "add":
+      if (YAML.isSeq(existing)) {
+        existing.add(document.createNode(value))
+      } else if (existing === undefined) {
+        document.set(name, document.createNode([value]))
+      } else {
+        document.set(
+          name,
+          document.createNode([
+            YAML.isScalar(existing) ? existing.value : existing,
+            value,
+          ]),
+        )
+      }
+      break
+    case "remove":
+      if (value === undefined) {
+        document.delete(name)
+      } else if (YAML.isSeq(existing)) {
+        existing.items = existing.items.filter(
+          (item) => !(YAML.isScalar(item) && String(item.value) === value),
+        )
+      } else if (YAML.isScalar(existing) && String(existing.value) === value) {
+        document.delete(name)
+      }
+      break
+  }
+
+  if ((document.contents as YAML.YAMLMap).items.length === 0) {
+    return restOfContent
+  }
+  return `---\n${document.toString()}---\n${restOfContent}`
+}
+
+const editMetaElements = ({
+  content,
+  name,
+  value,
+  action,
+}: {
+  content: string
+  name: string
+  value?: string
+  action: MetaAction
+}): string => {
+  const head = parseHtml(content).querySelector("head")
+  const headRange = head && elementContentRange(content, head)
+  if (!head || !headRange) {
+    throw new QueryError(400, "Entry has no <head> to hold metadata")
+  }
+  const element = head
+    .querySelectorAll("meta[itemprop]")
+    .find((meta) => meta.getAttribute("itemprop") === name)
+  const existingValues =
+    element
+      ?.getAttribute("content")
+      ?.split(/\s*,\s*/)
+      .filter(Boolean) ?? []
+
+  let values: Array<string>
+  switch (action) {
+    case "set":
+      values = [value!]
+      break
+    case "add":
+      values = existingValues.includes(value!)
+        ? existingValues
+        : [...existingValues, value!]
+      break
+    case "remove":
+      values =
+        value === undefined
+          ? []
+          : existingValues.filter((existing) => existing !== value)
+      break
+  }
+  const removeField = action === "remove" && values.length === 0
+  const replacement = `<meta itemprop="${escapeHtml(name)}" content="${escapeHtml(values.join(","))}" />`
+
+  if (element) {
+    let [start, end] = element.range
+    if (removeField) {
+      // Take the whole line with it, if it's on its own line
+      const lineStart = content.lastIndexOf("\n", start - 1) + 1
+      const lineEnd = content.indexOf("\n", end)
+      if (
+        /^\s*$/.test(content.slice(lineStart, start)) &&
+        lineEnd !== -1 &&
+        /^\s*$/.test(content.slice(end, lineEnd))
+      ) {
+        start = lineStart
+        end = lineEnd + 1
+      }
+    }
+    return `${content.slice(0, start)}${removeField ? "" : replacement}${content.slice(end)}`
+  }
+  if (removeField) return content
+
+  // Add it at the end of the head, indented like the other elements there
+  const [, headEnd] = headRange
+  const lineStart = content.lastIndexOf("\n", headEnd - 1) + 1
+  const closingIndentation = content.slice(lineStart, headEnd)
+  if (lineStart === 0 || !/^[ \t]*$/.test(closingIndentation)) {
+    return `${content.slice(0, headEnd)}${replacement}${content.slice(headEnd)}`
+  }
+  const indentation =
+    head.childNodes
+      .map((child) => content.slice(0, child.range[0]).match(/\n([ \t]*)$/))
+      .findLast((match) => match)?.[1] ?? `${closingIndentation}  `
+  return `${content.slice(0, lineStart)}${indentation}${replacement}\n${content.slice(lineStart)}`
+}
@@ -0,0 +1,275 @@
+import test from "node:test"
+import assert from "node:assert"
+import {
+  appendToContent,
+  editMeta,
+  replaceElementContent,
+  rewriteHref,
+  rewriteLinks,
+} from "./entryEditing.mts"
+
+const o = { concurrency: true }
+
+test("rewriteHref only rewrites hrefs to the given path", o, () => {
+  assert.equal(rewriteHref("/a.md", "/a.md", "/b.md"), "/b.md")
+  assert.equal(
+    rewriteHref("/a.md?edit#top", "/a.md", "/b.md"),
+    "/b.md?edit#top",
+  )
+  assert.equal(rewriteHref("/a.md.bak", "/a.md", "/b.md"), undefined)
+  assert.equal(rewriteHref("https://a.md", "/a.md", "/b.md"), undefined)
+  assert.equal(
+    rewriteHref("/my%20page.md", "/my page.md", "/new page.md"),
+    "/new%20page.md",
+    "Stays URI encoded",
+  )
+})
+
+test("rewriteLinks rewrites HTML anchors", o, () => {
+  const content = [
+    '<a href="/old.html">Old</a> and',
+    "<a class='x' href='/old.html#section'>Old</a>",
+    '<a href="/older.html">Untouched</a>',
+    '<link href="/old.html" />',
+  ].join("\n")
+  assert.equal(
+    rewriteLinks({
+      content,
+      renderability: "html",
+      from: "/old.html",
+      to: "/new.html",
+    }),
+    [
+      '<a href="/new.html">Old</a> and',
+      "<a class='x' href='/new.html#section'>Old</a>",
+      '<a href="/older.html">Untouched</a>',
+      '<link href="/old.html" />',
+    ].join("\n"),
+  )
+})
+
+test("rewriteLinks rewrites Markdown links", o, () => {
+  const content = [
+    'See [the old page](/old.md) or [with title](/old.md "Title").',
+    "Also [by angle brackets](</old.md>) and ![an image](/old.md).",
+    "A [reference][ref] and a wikilink [/old.md], but not [Old Title].",
+    'And <a href="/old.md">some HTML</a>.',
+    "",
+    "[ref]: /old.md",
+  ].join("\n")
+  assert.equal(
+    rewriteLinks({
+      content,
+      renderability: "markdown",
+      from: "/old.md",
+      to: "/new place.md",
+    }),
+    [
+      'See [the old page](</new place.md>) or [with title](</new place.md> "Title").',
+      "Also [by angle brackets](</new place.md>) and ![an image](</new place.md>).",
+      "A [reference][ref] and a wikilink [/new place.md], but not [Old Title].",
+      'And <a href="/new place.md">some HTML</a>.',
+      "",
+      "[ref]: </new place.md>",
+    ].join("\n"),
+  )
+})
+
+test("rewriteLinks leaves Markdown syntax alone in HTML entries", o, () => {
+  const content = "<p>[text](/old.md)</p>"
+  assert.equal(
+    rewriteLinks({
+      content,
+      renderability: "html",
+      from: "/old.md",
+      to: "/new.md",
+    }),
+    content,
+  )
+})
+
+test("appendToContent adds to the end of Markdown entries", o, () => {
+  for (const [content, expected] of [
+    ["", "- one\n"],
+    ["# Inbox\n", "# Inbox\n\n- one\n"],
+    ["# Inbox", "# Inbox\n\n- one\n"],
+  ]) {
+    assert.equal(
+      appendToContent({
+        content,
+        renderability: "markdown",
+        addition: "- one",
+      }),
+      expected,
+    )
+  }
+})
+
+test("appendToContent adds to the end of the HTML body", o, () => {
+  assert.equal(
+    appendToContent({
+      content: "<html><head></head><body>\n<p>one</p>\n</body></html>",
+      renderability: "html",
+      addition: "<p>two</p>\n",
+    }),
+    "<html><head></head><body>\n<p>one</p>\n<p>two</p>\n</body></html>",
+  )
+  assert.equal(
+    appendToContent({
+      content: "<p>one</p>",
+      renderability: "html",
+      addition: "<p>two</p>",
+    }),
+    "<p>one</p><p>two</p>",
+    "Fragments without a body",
+  )
+})
+
+test("appendToContent adds inside the selected element", o, () => {
+  const content = [
+    '<ul id="log" title="a > b">',
+    "  <li>one</li>",
+    "</ul>",
+    "<ul><li>other</li></ul>",
+  ].join("\n")
+  assert.equal(
+    appendToContent({
+      content,
+      renderability: "html",
+      addition: "  <li>two</li>\n",
+      selector: "#log",
+    }),
+    [
+      '<ul id="log" title="a > b">',
+      "  <li>one</li>",
+      "  <li>two</li>",
+      "</ul>",
+      "<ul><li>other</li></ul>",
+    ].join("\n"),
+  )
+  assert.throws(
+    () =>
+      appendToContent({
+        content,
+        renderability: "html",
+        addition: "<li>two</li>",
+        selector: "#missing",
+      }),
+    /No element matches/,
+  )
+})
+
+test("replaceElementContent only changes the selected element", o, () => {
+  const content = [
+    "<main>",
+    '  <p id="status" class="big">Pending</p>',
+    "  <p>Untouched   spacing</p>",
+    "</main>",
+  ].join("\n")
+  assert.equal(
+    replaceElementContent({
+      content,
+      selector: "#status",
+      replacement: "<em>Done</em>",
+    }),
+    [
+      "<main>",
+      '  <p id="status" class="big"><em>Done</em></p>',
+      "  <p>Untouched   spacing</p>",
+      "</main>",
+    ].join("\n"),
+  )
+  assert.throws(
+    () =>
+      replaceElementContent({
+        content: "<p><img src='a.png' /></p>",
+        selector: "img",
+        replacement: "text",
+      }),
+    /Can't replace content/,
+  )
+})
+
+test("editMeta changes meta elements in the head of HTML", o, () => {
+  const content = [
+    "<html>",
+    "  <head>",
+    "    <title>Page</title>",
+    '    <meta itemprop="keywords" content="a,b" />',
+    "  </head>",
+    "  <body><p>Body</p></body>",
+    "</html>",
+  ].join("\n")
+  const edit = (
+    name: string,
+    action: "set" | "add" | "remove",
+    value?: string,
+    on: string = content,
+  ) => editMeta({ content: on, renderability: "html", name, value, action })
+
+  assert.equal(
+    edit("keywords", "add", "c"),
+    content.replace('content="a,b"', 'content="a,b,c"'),
+  )
+  assert.equal(
+    edit("keywords", "remove", "a"),
+    content.replace('content="a,b"', 'content="b"'),
+  )
+  assert.equal(
+    edit("keywords", "remove"),
+    content.replace('    <meta itemprop="keywords" content="a,b" />\n', ""),
+  )
+  assert.equal(
+    edit("status", "set", `"done"`),
+    content.replace(
+      "  </head>",
+      '    <meta itemprop="status" content="&quot;done&quot;" />\n  </head>',
+    ),
+  )
+  assert.equal(edit("status", "remove"), content)
+  assert.throws(() => edit("status", "set", "x", "<p>No head</p>"), /no <head>/)
+})
+
+test("editMeta changes YAML frontmatter of Markdown", o, () => {
+  const content = [
+    "---",
+    "title: Page # A comment",
+    "keywords: [ a, b ]",
+    "---",
+    "# Body",
+    "",
+    "---",
+    "",
+  ].join("\n")
+  const edit = (
+    name: string,
+    action: "set" | "add" | "remove",
+    value?: string,
+    on: string = content,
+  ) => editMeta({ content: on, renderability: "markdown", name, value, action })
+
+  assert.equal(
+    edit("keywords", "add", "c"),
+    content.replace("[ a, b ]", "[ a, b, c ]"),
+  )
+  assert.equal(
+    edit("keywords", "remove", "a"),
+    content.replace("[ a, b ]", "[ b ]"),
+  )
+  assert.equal(
+    edit("title", "set", "New"),
+    content.replace("Page # A comment", "New # A comment"),
+  )
+  assert.equal(
+    edit("status", "set", "done"),
+    content.replace("---\n# Body", "status: done\n---\n# Body"),
+  )
+  assert.equal(
+    edit("status", "set", "done", "# Body\n"),
+    "---\nstatus: done\n---\n# Body\n",
+  )
+  assert.equal(
+    edit("status", "remove", undefined, "---\nstatus: done\n---\n# Body\n"),
+    "# Body\n",
+  )
+})
@@ -16,13 +16,93 @@ export class MissingFileQueryError extends QueryError {
   }
 }
 
+// A content path which would lead outside of the directory it's looked up in,
+// e.g. with `..`
+export class PathEscapeQueryError extends QueryError {
+  contentPath: string
+  constructor(contentPath: string, originalError?: unknown) {
+    super(400, `'${contentPath}' is outside of the wiki`, originalError)
+    this.contentPath = contentPath
+  }
+}
+
+export class ConflictQueryError extends QueryError {
+  contentPath: string
+  submittedContent: string
+  constructor(
+    contentPath: string,
+    submittedContent: string,
+    originalError?: unknown,
+  ) {
+    super(
+      409,
+      `'${contentPath}' changed since it was opened for editing`,
+      originalError,
+    )
+    this.contentPath = contentPath
+    this.submittedContent = submittedContent
+  }
+}
+
+export class UnauthorizedQueryError extends QueryError {
+  constructor(message: string, originalError?: unknown) {
+    super(401, message, originalError)
+  }
+}
+
+// Rendering went past one of the limits in `settings`, e.g. a page which
+// renders itself. Names the pages being rendered, outermost first
+export class RenderBudgetQueryError extends QueryError {
+  reason: string
+  renderChain: Array<string>
+  constructor(
+    status: number,
+    reason: string,
+    renderChain: Array<string>,
+    originalError?: unknown,
+  ) {
+    super(
+      status,
+      renderChain.length > 0
+        ? `${reason}, while rendering ${renderChain.join(" -> ")}`
+        : reason,
+      originalError,
+    )
+    this.reason = reason
+    this.renderChain = renderChain
+  }
+}
+
+export class ForbiddenQueryError extends QueryError {
+  constructor(message: string, originalError?: unknown) {
+    super(403, message, originalError)
+  }
+}
+
+// An entry flagged `readonly`, which has to lose the flag before it changes
+export class ReadonlyQueryError extends ForbiddenQueryError {
+  contentPath: string
+  constructor(contentPath: string, originalError?: unknown) {
+    super(
+      `'${contentPath}' is read-only. Remove its readonly flag to change it`,
+      originalError,
+    )
+    this.contentPath = contentPath
+  }
+}
+
 export class UsageError extends QueryError {
   constructor(message: string, originalError?: unknown) {
     super(522, message, originalError)
   }
 }
 
-export type AnswerErrorFileLocation = { line: number; column?: number }
+export type AnswerErrorFileLocation = {
+  line: number
+  column?: number
+  // The line itself, and a caret under the column
+  excerpt?: string
+}
 export class AnswerError extends QueryError {
   filePath: string
   fileLocation: AnswerErrorFileLocation
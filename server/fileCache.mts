@@ -1,11 +1,12 @@
 import { basename } from "node:path"
 import { parse as parseHtml } from "node-html-parser"
-import { applyTemplating, type Meta } from "./dom.mts"
+import { applyTemplating, isMetaFlagSet, type Meta } from "./dom.mts"
 import {
   createFileAndDirectories,
   fileExists,
   filePath,
   listAndMergeAllDirectoryContents,
+  moveFile,
   type MyDirectoryEntry,
   readFile,
   readFileRaw,
@@ -15,9 +16,31 @@ import {
   updateFile,
   actualFilePath,
 } from "./filesystem.mts"
+import {
+  listRevisions,
+  moveRevisions,
+  readRevision,
+  type Revision,
+  writeRevision,
+} from "./history.mts"
+import {
+  appendAuditRecord,
+  type AuditActor,
+  type AuditFilter,
+  type AuditOperation,
+  type AuditRecord,
+  readAuditRecords,
+} from "./auditLog.mts"
+import { isPrivate, type PrivateRules, readPrivateRules } from "./privacy.mts"
+import { findTransclusions } from "./transclusion.mts"
 import debug from "debug"
-import { MissingFileQueryError } from "./error.mts"
-import { deepFreeze, parseFrontmatter, renderMarkdown } from "./utilities.mts"
+import { MissingFileQueryError, QueryError } from "./error.mts"
+import {
+  deepFreeze,
+  hashContent,
+  parseFrontmatter,
+  renderMarkdown,
+} from "./utilities.mts"
 import type { ReadonlyDeep } from "type-fest"
 const log = debug("server:fileCache")
 type FileContentsAndMetaData = {
@@ -27,7 +50,11 @@ type FileContentsAndMetaData = {
   accessTimeMs: number
   createdTimeMs: number
   modifiedTimeMs: number
+  contentHash: string
   links: Array<string>
+  // Content paths or titles of the entries this one embeds, see
+  // transclusion.mts
+  transclusions: Array<string>
 }
 export type FileContentsAndDetails = FileContentsAndMetaData & MyDirectoryEntry
 
@@ -44,6 +71,8 @@ export type FileCache = {
   >
   getByContentPath: (path: string) => FileContentsAndDetails | undefined
   isCoreFile: (fileContentsAndDetails: FileContentsAndDetails) => boolean
+  // Flagged with `readonly` metadata, so only that flag may be changed
+  isReadonly: (fileContentsAndDetails: FileContentsAndDetails) => boolean
   ensureByContentPath: (path: string) => FileContentsAndDetails
   getByTitle: (title: string) => FileContentsAndDetails | undefined
   getByContentPathOrContentTitle: (
@@ -62,9 +91,26 @@ export type FileCache = {
     content: string
   }) => ReturnType<typeof updateFile>
   removeFile: (params: { contentPath: string }) => ReturnType<typeof removeFile>
+  moveFile: (params: {
+    contentPath: string
+    newContentPath: string
+  }) => ReturnType<typeof moveFile>
   getBacklinksByContentPath: (path: string) => Promise<Array<string>>
+  getTranscludedByContentPath: (path: string) => Promise<Array<string>>
+  getRevisions: (path: string) => Promise<Array<Revision>>
+  getRevision: (
+    path: string,
+    revisionId: string,
+  ) => Promise<Revision & { content: string }>
   getContentPathsForKeyword: (keyword: string) => Promise<Array<string>>
   allKeywords: () => Promise<Array<string>>
+  getAuditRecords: (filter?: AuditFilter) => Promise<Array<AuditRecord>>
+  // The same cache, except every change is recorded in the audit log
+  auditedAs: (actor: AuditActor) => FileCache
+  isPrivate: (fileContentsAndDetails: FileContentsAndDetails) => boolean
+  // The same cache, except private entries are as good as missing, see
+  // privacy.mts
+  withoutPrivate: () => FileCache
 }
 
 export const buildEmptyCache = async (): ReturnType<typeof buildCache> => {
@@ -81,16 +127,27 @@ export type ContentPathsByDirectoryStructure = Record<
 
 export const createFreshCache = async ({
   searchDirectories,
+  keepHistory = true,
+  keepAuditLog = true,
 }: {
   searchDirectories: string[]
+  // Whether to keep revisions of files before they're updated or removed
+  keepHistory?: boolean
+  // Whether `auditedAs` records changes, or is the same cache
+  keepAuditLog?: boolean
 }): Promise<FileCache> => {
   let listOfFilesAndDetails: FileContentsAndDetails[] = []
   let contentPathsByDirectoryStructure: ReadonlyDeep<ContentPathsByDirectoryStructure> =
     {}
   let backLinksByContentPath: Record<string, Array<string>> = {}
+  let transcludedByContentPath: Record<string, Array<string>> = {}
   let keywordsToContentPaths: Record<string, Array<string>> = {}
   const filesByTitle: Record<string, FileContentsAndDetails> = {}
   const filesByContentPath: Record<string, FileContentsAndDetails> = {}
+  const privateRules: PrivateRules =
+    searchDirectories.length > 0
+      ? await readPrivateRules({ directory: searchDirectories.at(0)! })
+      : []
   const addFileToCacheData: FileCache["addFileToCacheData"] = async ({
     contentPath,
     rebuildMetaCache = true,
@@ -124,9 +181,10 @@ export const createFreshCache = async ({
     listOfFilesAndDetails = listOfFilesAndDetails.filter(
       ({ contentPath: path }) => path !== contentPath,
     )
+    // The watcher also reports deletions the server already made
     const detail = filesByContentPath[contentPath]
     delete filesByContentPath[contentPath]
-    if (typeof detail.meta.title === "string")
+    if (typeof detail?.meta.title === "string")
       delete filesByTitle[detail.meta.title]
 
     // Find if there's a revealed shadow file
@@ -144,6 +202,13 @@ export const createFreshCache = async ({
     if (!backlinks) return []
     return [...backlinks]
   }
+  const getTranscludedByContentPath: (
+    path: string,
+  ) => Promise<Array<string>> = async (path) => {
+    const transcludedBy = transcludedByContentPath[path]
+    if (!transcludedBy) return []
+    return [...transcludedBy]
+  }
 
   const getContentPathsForKeyword: (
     keyword: string,
@@ -158,9 +223,11 @@ export const createFreshCache = async ({
       {}
     keywordsToContentPaths = {}
     backLinksByContentPath = {}
+    transcludedByContentPath = {}
     for (const {
       contentPath: sourceContentPath,
       links,
+      transclusions,
       meta: { keywords },
     } of await getListOfFilesAndDetails()) {
       for (const keyword of keywords ?? []) {
@@ -175,6 +242,14 @@ export const createFreshCache = async ({
           backLinksByContentPath[destinationContentPath] = []
         backLinksByContentPath[destinationContentPath].push(sourceContentPath)
       }
+      for (const transclusion of transclusions) {
+        const destinationContentPath =
+          fileCache.getByContentPathOrContentTitle(transclusion)?.contentPath ??
+          transclusion
+        if (!transcludedByContentPath[destinationContentPath])
+          transcludedByContentPath[destinationContentPath] = []
+        transcludedByContentPath[destinationContentPath].push(sourceContentPath)
+      }
       // All entries have a leading slash, so discard that, and the end filename
       const directoryStructure = sourceContentPath.split("/").slice(1, -1)
       if (directoryStructure.length < 1) {
@@ -210,6 +285,27 @@ export const createFreshCache = async ({
   const getContentPathsByDirectoryStructure = async () =>
     contentPathsByDirectoryStructure
 
+  // Only files in the top-level search directory can be changed, so that's
+  // the only place history is kept
+  const saveRevisionOf = async (
+    existingEntry: FileContentsAndDetails | undefined,
+    command: Revision["command"],
+  ) => {
+    const directory = searchDirectories.at(0)!
+    if (
+      !keepHistory ||
+      !existingEntry ||
+      existingEntry.originalContent.foundInDirectory !== directory
+    )
+      return
+    await writeRevision({
+      directory,
+      contentPath: existingEntry.contentPath,
+      content: existingEntry.originalContent.buffer,
+      command,
+    })
+  }
+
   const getByContentPathOrContentTitle: FileCache["getByContentPathOrContentTitle"] =
     (pathOrTitle) => {
       return pathOrTitle === "/"
@@ -227,7 +323,24 @@ export const createFreshCache = async ({
     isCoreFile: (fileContentsAndDetails) =>
       fileContentsAndDetails.originalContent.foundInDirectory !==
       searchDirectories.at(0),
+    isReadonly: ({ meta }) => isMetaFlagSet(meta, "readonly"),
     getBacklinksByContentPath,
+    getTranscludedByContentPath,
+    getRevisions: (path) =>
+      listRevisions({
+        directory: searchDirectories.at(0)!,
+        contentPath: decodeURIComponent(path),
+      }),
+    getRevision: async (path, revisionId) => {
+      const contentPath = decodeURIComponent(path)
+      const directory = searchDirectories.at(0)!
+      // Reading first validates the revision exists
+      const buffer = await readRevision({ directory, contentPath, revisionId })
+      const revision = (await listRevisions({ directory, contentPath })).find(
+        (revision) => revision.revisionId === revisionId,
+      )
+      return { ...revision!, content: buffer.toString() }
+    },
     allKeywords,
     addFileToCacheData,
     removeFileFromCacheData,
@@ -271,6 +384,7 @@ export const createFreshCache = async ({
 
     updateFile: async ({ contentPath, content }) => {
       const directory = searchDirectories.at(0)!
+      await saveRevisionOf(filesByContentPath[contentPath], "update")
       const result = await updateFile({
         directory,
         contentPath,
@@ -291,24 +405,207 @@ export const createFreshCache = async ({
           "Can only delete files in the top-level search directory",
         )
       }
+      await saveRevisionOf(existingEntry, "delete")
       // Don't update the cache until the operation is successful
       const result = await removeFile({ directory, contentPath })
       await removeFileFromCacheData({ contentPath })
       return result
     },
+    moveFile: async ({ contentPath, newContentPath }) => {
+      const directory = searchDirectories.at(0)!
+      const existingEntry = filesByContentPath[contentPath]
+      if (!existingEntry) {
+        throw new MissingFileQueryError(contentPath)
+      }
+      if (existingEntry.originalContent.foundInDirectory !== directory) {
+        throw new Error("Can only move files in the top-level search directory")
+      }
+      // Even a file only in a deeper search directory would be shadowed
+      if (filesByContentPath[newContentPath]) {
+        throw new QueryError(422, `File ${newContentPath} already exists`)
+      }
+      const result = await moveFile({ directory, contentPath, newContentPath })
+      await moveRevisions({ directory, contentPath, newContentPath })
+      await removeFileFromCacheData({ contentPath })
+      await addFileToCacheData({ contentPath: newContentPath })
+      return result
+    },
+    getAuditRecords: (filter) =>
+      readAuditRecords({ directory: searchDirectories.at(0)!, filter }),
+    auditedAs: (actor) => (keepAuditLog ? auditedFileCache(actor) : fileCache),
+    isPrivate: (fileContentsAndDetails) =>
+      isPrivate({ ...fileContentsAndDetails, rules: privateRules }),
+    withoutPrivate: () => fileCacheWithoutPrivate,
+  }
+
+  // Changes can only be made in the top-level search directory, so that's
+  // where the audit log is kept
+  const audit = async (
+    actor: AuditActor,
+    operation: AuditOperation,
+    previous: FileContentsAndDetails | undefined,
+    contentPath: string,
+    newContentPath?: string,
+  ) =>
+    appendAuditRecord({
+      directory: searchDirectories.at(0)!,
+      record: {
+        timestampMs: Date.now(),
+        operation,
+        contentPath,
+        newContentPath,
+        previousContentHash: previous?.contentHash,
+        contentHash:
+          filesByContentPath[newContentPath ?? contentPath]?.contentHash,
+        ...actor,
+      },
+    })
+
+  const auditedFileCache = (actor: AuditActor): FileCache => ({
+    ...fileCache,
+    createFileAndDirectories: async (params) => {
+      const previous = filesByContentPath[params.contentPath]
+      const result = await fileCache.createFileAndDirectories(params)
+      await audit(
+        actor,
+        previous ? "shadow" : "create",
+        previous,
+        params.contentPath,
+      )
+      return result
+    },
+    updateFile: async (params) => {
+      const previous = filesByContentPath[params.contentPath]
+      const result = await fileCache.updateFile(params)
+      await audit(actor, "update", previous, params.contentPath)
+      return result
+    },
+    removeFile: async (params) => {
+      const previous = filesByContentPath[params.contentPath]
+      const result = await fileCache.removeFile(params)
+      await audit(actor, "delete", previous, params.contentPath)
+      return result
+    },
+    moveFile: async (params) => {
+      const previous = filesByContentPath[params.contentPath]
+      const result = await fileCache.moveFile(params)
+      await audit(
+        actor,
+        "move",
+        previous,
+        params.contentPath,
+        params.newContentPath,
+      )
+      return result
+    },
+  })
+
+  const isPublic = (entry: FileContentsAndDetails | undefined) =>
+    entry !== undefined && !fileCache.isPrivate(entry)
+  // Also for missing entries, e.g. those which are only linked to
+  const isPublicContentPath = (contentPath: string) =>
+    filesByContentPath[contentPath]
+      ? isPublic(filesByContentPath[contentPath])
+      : !isPrivate({ contentPath, meta: {}, rules: privateRules })
+  const ensurePublic = (
+    entry: FileContentsAndDetails | undefined,
+    path: string,
+  ) => {
+    if (!isPublic(entry)) throw new MissingFileQueryError(path)
+    return entry!
+  }
+  const withoutPrivateDirectories = (
+    directory: ReadonlyDeep<ContentPathsByDirectoryStructure>,
+  ): ContentPathsByDirectoryStructure => {
+    const result: ContentPathsByDirectoryStructure = {}
+    for (const [name, entry] of Object.entries(directory)) {
+      if (typeof entry === "string") {
+        if (isPublicContentPath(entry)) result[name] = entry
+        continue
+      }
+      const publicEntries = withoutPrivateDirectories(entry)
+      if (Object.keys(publicEntries).length > 0) result[name] = publicEntries
+    }
+    return result
+  }
+  const fileCacheWithoutPrivate: FileCache = {
+    ...fileCache,
+    getListOfFilesAndDetails: async () =>
+      (await getListOfFilesAndDetails()).filter(isPublic),
+    getContentPathsByDirectoryStructure: async () =>
+      deepFreeze(withoutPrivateDirectories(contentPathsByDirectoryStructure)),
+    getContentPathsForKeyword: async (keyword) =>
+      (await getContentPathsForKeyword(keyword)).filter(isPublicContentPath),
+    allKeywords: async () => {
+      const keywords = []
+      for (const keyword of await allKeywords()) {
+        const contentPaths = await getContentPathsForKeyword(keyword)
+        if (contentPaths.some(isPublicContentPath)) keywords.push(keyword)
+      }
+      return keywords
+    },
+    getBacklinksByContentPath: async (path) =>
+      isPublicContentPath(path)
+        ? (await getBacklinksByContentPath(path)).filter(isPublicContentPath)
+        : [],
+    getTranscludedByContentPath: async (path) =>
+      isPublicContentPath(path)
+        ? (await getTranscludedByContentPath(path)).filter(isPublicContentPath)
+        : [],
+    // A deleted entry may have been private by its own metadata, which went
+    // with it, so only those who can edit see the history of deleted entries
+    getRevisions: async (path) => {
+      if (!isPublic(fileCache.getByContentPath(path))) return []
+      return fileCache.getRevisions(path)
+    },
+    getRevision: async (path, revisionId) => {
+      if (!isPublic(fileCache.getByContentPath(path))) {
+        throw new MissingFileQueryError(path)
+      }
+      return fileCache.getRevision(path, revisionId)
+    },
+    getByContentPath: (path) => {
+      const entry = fileCache.getByContentPath(path)
+      return isPublic(entry) ? entry : undefined
+    },
+    getByTitle: (title) => {
+      const entry = fileCache.getByTitle(title)
+      return isPublic(entry) ? entry : undefined
+    },
+    getByContentPathOrContentTitle: (pathOrTitle) => {
+      const entry = getByContentPathOrContentTitle(pathOrTitle)
+      return isPublic(entry) ? entry : undefined
+    },
+    ensureByContentPath: (path) =>
+      ensurePublic(fileCache.getByContentPath(path), path),
+    ensureByContentPathOrContentTitle: (path) =>
+      ensurePublic(getByContentPathOrContentTitle(path), path),
+    fileExists: async (path) =>
+      isPublicContentPath(path)
+        ? fileCache.fileExists(path)
+        : { exists: false },
+    withoutPrivate: () => fileCacheWithoutPrivate,
   }
   return fileCache
 }
 
 export const buildCache = async ({
   searchDirectories,
+  keepHistory,
+  keepAuditLog,
 }: {
   searchDirectories: string[]
+  keepHistory?: boolean
+  keepAuditLog?: boolean
 }): Promise<FileCache> => {
   if (searchDirectories.length === 0) {
     throw new Error("Cache requires non-empty searchDirectories upfront")
   }
-  const fileCache = await createFreshCache({ searchDirectories })
+  const fileCache = await createFreshCache({
+    searchDirectories,
+    keepHistory,
+    keepAuditLog,
+  })
   const allFiles = await getContentsAndMetaOfAllFiles({
     // TODO: To recover from race conditions on initial build,
     // in the future, probably want to be able to start with the last cache.
@@ -328,6 +625,43 @@ export const buildCache = async ({
   return fileCache
 }
 
+const fileCacheChanges = new Set<string>([
+  "rebuildMetaCache",
+  "addFileToCacheData",
+  "removeFileFromCacheData",
+  "createFileAndDirectories",
+  "updateFile",
+  "removeFile",
+  "moveFile",
+] satisfies Array<keyof FileCache>)
+// Which return another file cache, that needs to be just as read-only
+const fileCacheViews = new Set<string>([
+  "withoutPrivate",
+  "auditedAs",
+] satisfies Array<keyof FileCache>)
+/**
+ * The same files, for those who may look at them but not change them. Reaching
+ * for any change throws what refuse gives for it.
+ **/
+export const readOnlyFileCache = (
+  fileCache: FileCache,
+  refuse: (change: string) => Error,
+): FileCache =>
+  new Proxy(fileCache, {
+    get(target, prop, receiver) {
+      if (typeof prop === "string" && fileCacheChanges.has(prop)) {
+        throw refuse(prop)
+      }
+      const value = Reflect.get(target, prop, receiver)
+      if (typeof prop === "string" && fileCacheViews.has(prop)) {
+        const view = value as (...args: Array<never>) => FileCache
+        return (...args: Array<never>) =>
+          readOnlyFileCache(view(...args), refuse)
+      }
+      return value
+    },
+  })
+
 export type Renderability = "html" | "markdown" | "static"
 const getFileContentsAndMetadata = async ({
   contentPath,
@@ -349,6 +683,7 @@ const getFileContentsAndMetadata = async ({
     accessTimeMs: stats.atimeMs,
     createdTimeMs: stats.ctimeMs,
     modifiedTimeMs: stats.mtimeMs,
+    contentHash: hashContent(readResults.buffer),
   }
   const isMarkdown = /\.md$/.test(contentPath)
   if (
@@ -369,6 +704,7 @@ const getFileContentsAndMetadata = async ({
       originalContent: readResults,
       renderability: "html",
       links: [],
+      transclusions: findTransclusions(content),
       ...myStats,
     }
     if (isMarkdown) {
@@ -426,6 +762,7 @@ const getFileContentsAndMetadata = async ({
       meta: {},
       renderability: "static",
       links: [],
+      transclusions: [],
       ...myStats,
     }
   }
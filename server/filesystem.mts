@@ -1,8 +1,16 @@
-import { MissingFileQueryError, QueryError } from "./error.mts"
-import { dirname, normalize } from "node:path"
 import {
+  ForbiddenQueryError,
+  MissingFileQueryError,
+  PathEscapeQueryError,
+  QueryError,
+} from "./error.mts"
+import { configuredFiles } from "./configuration.mts"
+import { dirname, normalize, resolve, sep } from "node:path"
+import {
+  access,
   mkdir,
   open,
+  rename,
   rm,
   writeFile,
   readFile as fsReadFile,
@@ -11,23 +19,29 @@ import {
 
 export { stat } from "node:fs/promises"
 
-export const actualFilePath = ({
-  contentPath,
-  directory,
-}: {
-  contentPath: string
-  directory: string
-}) => `${process.cwd()}/${filePath({ contentPath, directory })}`
+export const actualFilePath = filePath
 
-export const filePath = ({
+// Every path to a file goes through here, so this is where we make sure that
+// no content path, however it's written, leads outside of its directory
+export function filePath({
   contentPath,
   directory,
 }: {
   contentPath: string
   directory: string
-}) =>
-  // TODO: Find a good library to establish this is a real valid path
-  `${directory}${contentPath}`
+}): string {
+  const resolvedDirectory = resolve(directory)
+  // The leading `.` keeps a content path which isn't relative from replacing
+  // the directory
+  const path = resolve(resolvedDirectory, `.${sep}${contentPath}`)
+  if (
+    path !== resolvedDirectory &&
+    !path.startsWith(`${resolvedDirectory}${sep}`)
+  ) {
+    throw new PathEscapeQueryError(contentPath)
+  }
+  return path
+}
 
 export const createFileAndDirectories = async ({
   contentPath,
@@ -108,6 +122,7 @@ export const fileExists = async (params: {
     const { foundInDirectory } = await readFileRaw(params)
     return { exists: true, foundInDirectory }
   } catch (error) {
+    if (error instanceof PathEscapeQueryError) throw error
     return { exists: false }
   }
 }
@@ -141,6 +156,11 @@ export const updateFile = async ({
 // Function because I'm scared of stateful regex in JS
 const happyFilePathRegex = () => /[^a-zA-Z0-9\-. _/]/g
 export const assertHappyFilePath = (path: string): void => {
+  if (path.split("/").includes("..")) throw new PathEscapeQueryError(path)
+  // Revisions, the audit log and private rules are only for the wiki to write
+  if (isWikiDataContentPath(normalize(`/${path}`))) {
+    throw new ForbiddenQueryError(`'${path}' is kept by the wiki, not an entry`)
+  }
   const problems = path.match(happyFilePathRegex())
   if (problems) {
     const chars = problems.map((c) => `'${c}'`).join(", ")
@@ -178,6 +198,46 @@ export const removeFile = async ({
   }
 }
 
+export const moveFile = async ({
+  contentPath,
+  newContentPath,
+  directory,
+}: {
+  contentPath: string
+  newContentPath: string
+  directory: string
+}) => {
+  assertHappyFilePath(newContentPath)
+  const source = filePath({ contentPath, directory })
+  const destination = filePath({ contentPath: newContentPath, directory })
+  try {
+    await access(source)
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      throw new MissingFileQueryError(contentPath)
+    }
+    throw error
+  }
+  // Rename would happily replace an existing file, so claim the spot first
+  await mkdir(dirname(destination), { recursive: true })
+  try {
+    const handle = await open(destination, "wx")
+    await handle.close()
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "EEXIST") {
+      throw new QueryError(422, `File ${newContentPath} already exists`)
+    }
+    throw error
+  }
+  try {
+    await rename(source, destination)
+  } catch (error) {
+    // Don't leave the claimed spot behind as an empty file
+    await rm(destination, { force: true })
+    throw error
+  }
+}
+
 /**
  * Return a list of all the unique paths which are accessible in the given
  * searchDirectories. Unique means that if the same path can access a file/dir
@@ -227,20 +287,28 @@ export const listAllDirectoryContents = async ({
     recursive: true,
     withFileTypes: true,
   })
-  return all.map((dirent) => ({
-    name: dirent.name,
-    contentPath: `${dirent.parentPath.slice(
-      normalizedBaseDirectory.length,
-    )}/${dirent.name}`,
-    actualPath: `${dirent.parentPath}/${dirent.name}`,
-    type: dirent.isDirectory()
-      ? "directory"
-      : dirent.isFile()
-        ? "file"
-        : "other",
-  }))
+  return all
+    .map(
+      (dirent): MyDirectoryEntry => ({
+        name: dirent.name,
+        contentPath: `${dirent.parentPath.slice(
+          normalizedBaseDirectory.length,
+        )}/${dirent.name}`,
+        actualPath: `${dirent.parentPath}/${dirent.name}`,
+        type: dirent.isDirectory()
+          ? "directory"
+          : dirent.isFile()
+            ? "file"
+            : "other",
+      }),
+    )
+    .filter(({ contentPath }) => !isWikiDataContentPath(contentPath))
 }
 
+export const isWikiDataContentPath = (contentPath: string) =>
+  contentPath === configuredFiles.wikiDataDirectory ||
+  contentPath.startsWith(`${configuredFiles.wikiDataDirectory}/`)
+
 export const cleanContent = ({ content }: { content: string }) =>
   content
     // Browser sends CRLF, replace with unix-style LF,
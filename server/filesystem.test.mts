@@ -0,0 +1,260 @@
+import test from "node:test"
+import assert from "node:assert"
+import { mkdir, mkdtemp, readdir, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import {
+  createFileAndDirectories,
+  fileExists,
+  filePath,
+  moveFile,
+  readFile,
+  removeFile,
+  updateFile,
+} from "./filesystem.mts"
+import {
+  ForbiddenQueryError,
+  MissingFileQueryError,
+  PathEscapeQueryError,
+} from "./error.mts"
+import { execute, setEachParameterWithSource } from "./engine.mts"
+import { buildCache } from "./fileCache.mts"
+
+const o = { concurrency: true }
+
+test("filePath stays inside its directory", o, () => {
+  const directory = "/wiki/entries"
+  assert.equal(
+    filePath({ contentPath: "/a/b.html", directory }),
+    "/wiki/entries/a/b.html",
+  )
+  assert.equal(
+    filePath({ contentPath: "/a/../b.html", directory }),
+    "/wiki/entries/b.html",
+  )
+  assert.equal(filePath({ contentPath: "/", directory }), "/wiki/entries")
+  for (const contentPath of [
+    "/../secret",
+    "/a/../../secret",
+    "../entries-but-not-really/b.html",
+    "/..",
+  ]) {
+    assert.throws(
+      () => filePath({ contentPath, directory }),
+      PathEscapeQueryError,
+      contentPath,
+    )
+  }
+})
+
+test("Files outside the directory can't be touched", o, async () => {
+  const parent = await mkdtemp(join(tmpdir(), "html-wiki-filesystem-"))
+  const directory = join(parent, "entries")
+  const escaped = "/../secret.txt"
+  try {
+    await createFileAndDirectories({
+      contentPath: "/inside.txt",
+      directory,
+      content: "inside",
+    })
+    await writeFile(join(parent, "secret.txt"), "secret")
+    const searchDirectories = [directory]
+
+    await assert.rejects(
+      readFile({ contentPath: escaped, searchDirectories }),
+      PathEscapeQueryError,
+    )
+    await assert.rejects(
+      fileExists({ contentPath: escaped, searchDirectories }),
+      PathEscapeQueryError,
+    )
+    await assert.rejects(
+      createFileAndDirectories({
+        contentPath: "/../created.txt",
+        directory,
+        content: "",
+      }),
+      PathEscapeQueryError,
+    )
+    await assert.rejects(
+      updateFile({ contentPath: escaped, directory, content: "" }),
+      PathEscapeQueryError,
+    )
+    await assert.rejects(
+      removeFile({ contentPath: escaped, directory }),
+      PathEscapeQueryError,
+    )
+    await assert.rejects(
+      moveFile({
+        contentPath: "/inside.txt",
+        newContentPath: escaped,
+        directory,
+      }),
+      PathEscapeQueryError,
+    )
+    await assert.rejects(
+      moveFile({
+        contentPath: escaped,
+        newContentPath: "/moved.txt",
+        directory,
+      }),
+      PathEscapeQueryError,
+    )
+
+    assert.deepEqual((await readdir(parent)).sort(), ["entries", "secret.txt"])
+    assert.equal(
+      (await readFile({ contentPath: "/inside.txt", searchDirectories }))
+        .content,
+      "inside",
+    )
+  } finally {
+    await rm(parent, { recursive: true })
+  }
+})
+
+test("The wiki's own data can't be written as entries", o, async () => {
+  const directory = await mkdtemp(join(tmpdir(), "html-wiki-data-"))
+  try {
+    await writeFile(join(directory, "entry.md"), "# Entry")
+    for (const contentPath of [
+      "/.wiki/private.txt",
+      "/.wiki/history/entry.md/1-update",
+      "//.wiki/audit.jsonl",
+      "/./.wiki",
+    ]) {
+      await assert.rejects(
+        createFileAndDirectories({ contentPath, directory, content: "" }),
+        ForbiddenQueryError,
+        contentPath,
+      )
+      await assert.rejects(
+        updateFile({ contentPath, directory, content: "" }),
+        ForbiddenQueryError,
+        contentPath,
+      )
+      await assert.rejects(
+        moveFile({
+          contentPath: "/entry.md",
+          newContentPath: contentPath,
+          directory,
+        }),
+        ForbiddenQueryError,
+        contentPath,
+      )
+    }
+    assert.deepEqual(await readdir(directory), ["entry.md"])
+  } finally {
+    await rm(directory, { recursive: true })
+  }
+})
+
+test("Moving leaves nothing behind when it fails", o, async () => {
+  const directory = await mkdtemp(join(tmpdir(), "html-wiki-move-"))
+  try {
+    await assert.rejects(
+      moveFile({
+        contentPath: "/missing.txt",
+        newContentPath: "/moved.txt",
+        directory,
+      }),
+      MissingFileQueryError,
+    )
+    // A directory can't be renamed over the file claiming its new spot
+    await mkdir(join(directory, "folder"))
+    await assert.rejects(
+      moveFile({
+        contentPath: "/folder",
+        newContentPath: "/moved.txt",
+        directory,
+      }),
+    )
+    assert.deepEqual(await readdir(directory), ["folder"])
+  } finally {
+    await rm(directory, { recursive: true })
+  }
+})
+
+test("Revisions move along with their entry", o, async () => {
+  const directory = await mkdtemp(join(tmpdir(), "html-wiki-move-history-"))
+  try {
+    await writeFile(join(directory, "before.md"), "# First")
+    const fileCache = await buildCache({ searchDirectories: [directory] })
+    await fileCache.updateFile({
+      contentPath: "/before.md",
+      content: "# Second",
+    })
+    const [revision] = await fileCache.getRevisions("/before.md")
+
+    await fileCache.moveFile({
+      contentPath: "/before.md",
+      newContentPath: "/after.md",
+    })
+    assert.deepEqual(await fileCache.getRevisions("/before.md"), [])
+    assert.deepEqual(await fileCache.getRevisions("/after.md"), [
+      { ...revision, contentPath: "/after.md" },
+    ])
+    assert.equal(
+      (await fileCache.getRevision("/after.md", revision.revisionId)).content,
+      "# First",
+    )
+  } finally {
+    await rm(directory, { recursive: true })
+  }
+})
+
+test(
+  "Encoded traversal in contentPathOrContentTitle goes nowhere",
+  o,
+  async () => {
+    const parent = await mkdtemp(join(tmpdir(), "html-wiki-traversal-"))
+    const directory = join(parent, "entries")
+    try {
+      await createFileAndDirectories({
+        contentPath: "/index.html",
+        directory,
+        content: "<p>Home</p>",
+      })
+      await writeFile(join(parent, "secret.md"), "secret")
+      const fileCache = await buildCache({ searchDirectories: [directory] })
+
+      for (const contentPathOrContentTitle of [
+        "/..%2Fsecret.md",
+        "/%2e%2e/secret.md",
+        "%2E%2E%2Fsecret.md",
+      ]) {
+        await assert.rejects(
+          execute({
+            fileCache,
+            parameters: setEachParameterWithSource(
+              {},
+              { command: "read", contentPathOrContentTitle },
+              "query param",
+            ),
+          }),
+          MissingFileQueryError,
+          contentPathOrContentTitle,
+        )
+        // Appending creates missing entries, but not that one
+        await assert.rejects(
+          execute({
+            fileCache,
+            parameters: setEachParameterWithSource(
+              {},
+              {
+                command: "append",
+                contentPathOrContentTitle,
+                content: "Not so secret",
+              },
+              "query param",
+            ),
+          }),
+          PathEscapeQueryError,
+          contentPathOrContentTitle,
+        )
+      }
+      assert.deepEqual((await readdir(parent)).sort(), ["entries", "secret.md"])
+    } finally {
+      await rm(parent, { recursive: true })
+    }
+  },
+)
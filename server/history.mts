@@ -0,0 +1,202 @@
+import {
+  link,
+  mkdir,
+  open,
+  readdir,
+  readFile as fsReadFile,
+  rm,
+} from "node:fs/promises"
+import { filePath } from "./filesystem.mts"
+import { configuredFiles } from "./configuration.mts"
+import { QueryError } from "./error.mts"
+import debug from "debug"
+const log = debug("server:history")
+
+// The commands which replace a file's contents and so warrant a revision
+export type RevisionCommand = "update" | "delete"
+
+export type Revision = {
+  revisionId: string
+  contentPath: string
+  // When the revision was superseded, not when it was originally written
+  timestampMs: number
+  command: RevisionCommand
+}
+
+// Revision IDs are also filenames, so be strict to keep them from wandering
+const revisionIdRegex = () => /^(\d+)-(update|delete)$/
+
+const revisionsDirectory = (contentPath: string) =>
+  `${configuredFiles.historyDirectory}${contentPath}`
+
+/**
+ * Keep a copy of the given content as a revision of contentPath in the
+ * history sidecar of the given directory. Revisions are never modified or
+ * removed once written.
+ **/
+export const writeRevision = async ({
+  contentPath,
+  directory,
+  content,
+  command,
+}: {
+  contentPath: string
+  directory: string
+  content: Buffer
+  command: RevisionCommand
+}): Promise<Revision> => {
+  await mkdir(
+    filePath({ contentPath: revisionsDirectory(contentPath), directory }),
+    { recursive: true },
+  )
+  let timestampMs = Date.now()
+  while (true) {
+    const revisionId = `${timestampMs}-${command}`
+    let fd
+    try {
+      fd = await open(
+        filePath({
+          contentPath: `${revisionsDirectory(contentPath)}/${revisionId}`,
+          directory,
+        }),
+        "wx",
+      )
+      await fd.writeFile(content)
+      log(`Wrote revision ${revisionId} of ${contentPath}`)
+      return { revisionId, contentPath, timestampMs, command }
+    } catch (error) {
+      // Two revisions within a millisecond. Pretend the second came later
+      if (
+        error instanceof Error &&
+        "code" in error &&
+        error.code === "EEXIST"
+      ) {
+        timestampMs++
+        continue
+      }
+      throw error
+    } finally {
+      await fd?.close()
+    }
+  }
+}
+
+/**
+ * All revisions of contentPath, most recent first
+ **/
+export const listRevisions = async ({
+  contentPath,
+  directory,
+}: {
+  contentPath: string
+  directory: string
+}): Promise<Array<Revision>> => {
+  let names: Array<string>
+  try {
+    names = await readdir(
+      filePath({ contentPath: revisionsDirectory(contentPath), directory }),
+    )
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return []
+    }
+    throw error
+  }
+  const revisions: Array<Revision> = []
+  for (const revisionId of names) {
+    const match = revisionId.match(revisionIdRegex())
+    if (!match) continue
+    revisions.push({
+      revisionId,
+      contentPath,
+      timestampMs: Number(match[1]),
+      command: match[2] as RevisionCommand,
+    })
+  }
+  return revisions.sort((a, b) => b.timestampMs - a.timestampMs)
+}
+
+/**
+ * Carry the revisions of contentPath over to newContentPath when it moves, so
+ * they can still be listed and restored. Any revisions already kept for
+ * newContentPath, e.g. from an entry deleted there, stay alongside them.
+ **/
+export const moveRevisions = async ({
+  contentPath,
+  newContentPath,
+  directory,
+}: {
+  contentPath: string
+  newContentPath: string
+  directory: string
+}): Promise<void> => {
+  const revisions = await listRevisions({ contentPath, directory })
+  if (revisions.length === 0) return
+  await mkdir(
+    filePath({ contentPath: revisionsDirectory(newContentPath), directory }),
+    { recursive: true },
+  )
+  for (const { revisionId, timestampMs, command } of revisions) {
+    const source = filePath({
+      contentPath: `${revisionsDirectory(contentPath)}/${revisionId}`,
+      directory,
+    })
+    // Linking, unlike renaming, won't replace a revision already there
+    for (let ms = timestampMs; ; ms++) {
+      try {
+        await link(
+          source,
+          filePath({
+            contentPath: `${revisionsDirectory(newContentPath)}/${ms}-${command}`,
+            directory,
+          }),
+        )
+        break
+      } catch (error) {
+        if (
+          !(
+            error instanceof Error &&
+            "code" in error &&
+            error.code === "EEXIST"
+          )
+        )
+          throw error
+      }
+    }
+    await rm(source)
+  }
+  log(
+    `Moved ${revisions.length} revisions of ${contentPath} to ${newContentPath}`,
+  )
+}
+
+export const readRevision = async ({
+  contentPath,
+  directory,
+  revisionId,
+}: {
+  contentPath: string
+  directory: string
+  revisionId: string
+}): Promise<Buffer> => {
+  if (!revisionIdRegex().test(revisionId)) {
+    throw new QueryError(400, `'${revisionId}' is not a valid revision`)
+  }
+  try {
+    return await fsReadFile(
+      filePath({
+        contentPath: `${revisionsDirectory(contentPath)}/${revisionId}`,
+        directory,
+      }),
+    )
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      throw new QueryError(
+        404,
+        `No revision '${revisionId}' of '${contentPath}'`,
+        error,
+      )
+    }
+    throw error
+  }
+}
@@ -7,7 +7,7 @@ import { readFile } from "node:fs/promises"
 import { Temporal } from "temporal-polyfill"
 import { html } from "./utilities.mts"
 import stylelint from "stylelint"
-import { configuredFiles } from "./configuration.mts"
+import { configuredFiles, settings } from "./configuration.mts"
 import { inspect } from "node:util"
 import { version } from "node:punycode"
 
@@ -29,12 +29,19 @@ let port = 3001
 // const wait = (millis: number) => new Promise((r) => setTimeout(r, millis));
 // await wait(delay);
 
+// Like a browser, keep the cookie with the token which forms send back
+const csrf = await (async () => {
+  const response = await fetch(`http://localhost:${port}/`)
+  const cookie = response.headers.get("set-cookie")!.split(";")[0]
+  return { cookie, csrfToken: cookie.split("=")[1] }
+})()
+
 // It's not really a path cuz I want to write param string there too?
 async function getPath(path: string, status: number = 200) {
   if (path[0] !== "/")
     throw new Error("Paths must all start with a leading slash")
   const url = `http://localhost:${port}${path}`
-  const response = await fetch(url)
+  const response = await fetch(url, { headers: { cookie: csrf.cookie } })
   const responseText = await response.text()
   const dom = parseHtml(responseText)
 
@@ -57,11 +64,17 @@ async function postPath(
   if (path[0] !== "/")
     throw new Error("Paths must all start with a leading slash")
   const url = `http://localhost:${port}${path}`
+  if (body instanceof FormData) {
+    body.append("csrfToken", csrf.csrfToken)
+  } else {
+    body = { csrfToken: csrf.csrfToken, ...body }
+  }
   let response
   try {
     response = await fetch(url, {
       method: "post",
       body: body instanceof FormData ? body : new URLSearchParams(body),
+      headers: { cookie: csrf.cookie },
     })
   } catch (error) {
     console.log(`Fetch failed for URL ${url}: ${error}`)
@@ -394,7 +407,9 @@ test("Can get edit page for markdown file", { concurrency: true }, async () => {
 
   // The page should be exactly the same as if we call the expanded version
   const expandedUrl = `http://localhost:${port}${configuredFiles.defaultEditTemplateFile}?target=${configuredFiles.testMarkdownFile}`
-  const responseForExpandedUrl = await fetch(expandedUrl)
+  const responseForExpandedUrl = await fetch(expandedUrl, {
+    headers: { cookie: csrf.cookie },
+  })
   const responseTextForExpandedUrl = await responseForExpandedUrl.text()
 
   assert.strictEqual(responseForExpandedUrl.status, 200)
@@ -756,6 +771,823 @@ test(
   },
 )
 
+test(
+  "Can see the history of a page and restore a previous revision",
+  { concurrency: true },
+  async (context) => {
+    const filename = tmpFileName()
+    const content = html`<!doctype html>
+      <html lang="en-US">
+        <head>
+          <title>Test page for history</title>
+        </head>
+        <body>
+          <h1>Original Heading</h1>
+          <p>
+            This is a page automatically created as part of integration test
+            <code>${context.fullName}</code>. It was supposed to be deleted, but
+            I guess that didn't work if you're looking at it?
+          </p>
+        </body>
+      </html>`
+    await postPath(`/?create`, { contentPath: filename, content })
+
+    const noHistoryResponse = await getPath(`${filename}?history`)
+    assert.match(noHistoryResponse.responseText, /no previous versions/i)
+    await validateAssertAndReport(
+      noHistoryResponse.responseText,
+      noHistoryResponse.url,
+    )
+
+    await postPath(filename, {
+      content: content.replace("Original Heading", "Edited Heading"),
+    })
+
+    const historyResponse = await getPath(`${filename}?history`)
+    const revisionLinks = historyResponse.$("main li a")
+    assert.equal(revisionLinks.length, 1)
+    assert.match(historyResponse.$1("main li").innerText, /update/)
+    await validateAssertAndReport(
+      historyResponse.responseText,
+      historyResponse.url,
+    )
+
+    const revisionResponse = await getPath(
+      revisionLinks[0].getAttribute("href")!,
+    )
+    assert.match(revisionResponse.$1("main pre").innerText, /Original Heading/)
+    assert.ok(
+      revisionResponse.$1(`form[action="${filename}?edit"][method="POST"]`),
+    )
+    await validateAssertAndReport(
+      revisionResponse.responseText,
+      revisionResponse.url,
+    )
+
+    const restoreResponse = await postPath(`${filename}?edit`, {
+      content: revisionResponse
+        .$1("input[type=hidden][name=content]")
+        .getAttribute("value")!,
+    })
+    assert.match(restoreResponse.responseText, /updated successfully/i)
+    assert.match((await getPath(filename)).$1("h1").innerHTML, /Original/)
+
+    // Deleting keeps a revision too, and the history remains reachable
+    await postPath(`${filename}?delete&delete-confirm`)
+    const afterDeleteResponse = await getPath(`${filename}?history`)
+    assert.equal(afterDeleteResponse.$("main li a").length, 3)
+    assert.match(afterDeleteResponse.$1("main li").innerText, /delete/)
+
+    await getPath(`/tmp/never-existed.html?history`, 404)
+  },
+)
+
+test(
+  "Saving over a page which changed since editing began is a conflict",
+  { concurrency: true },
+  async (context) => {
+    const filename = tmpFileName()
+    const content = html`<!doctype html>
+      <html lang="en-US">
+        <head>
+          <title>Test page for conflicts</title>
+        </head>
+        <body>
+          <h1>Original Heading</h1>
+          <p>
+            This is a page automatically created as part of integration test
+            <code>${context.fullName}</code>. It was supposed to be deleted, but
+            I guess that didn't work if you're looking at it?
+          </p>
+        </body>
+      </html>`
+    await postPath(`/?create`, { contentPath: filename, content })
+
+    const firstEditor = await getPath(`${filename}?edit`)
+    const secondEditor = await getPath(`${filename}?edit`)
+    const hashInput = "input[type=hidden][name=previousContentHash]"
+    const previousContentHash = firstEditor.$1(hashInput).getAttribute("value")!
+    assert.match(previousContentHash, /^[0-9a-f]{64}$/)
+
+    const firstSaveResponse = await postPath(filename, {
+      previousContentHash,
+      content: content.replace("Original Heading", "First Heading"),
+    })
+    assert.match(firstSaveResponse.responseText, /updated successfully/i)
+
+    const secondSaveResponse = await postPath(
+      filename,
+      {
+        previousContentHash: secondEditor.$1(hashInput).getAttribute("value")!,
+        content: content.replace("Original Heading", "Second Heading"),
+      },
+      409,
+    )
+    assert.match(secondSaveResponse.$1("h1").innerText, /conflict/i)
+    const [current, submitted] = secondSaveResponse.$("edit-conflict textarea")
+    assert.match(current.innerText, /First Heading/)
+    assert.match(submitted.innerText, /Second Heading/)
+    assert.equal(submitted.getAttribute("name"), "content")
+    await validateAssertAndReport(
+      secondSaveResponse.responseText,
+      secondSaveResponse.url,
+    )
+
+    // The file wasn't touched
+    assert.match((await getPath(filename)).$1("h1").innerHTML, /First/)
+
+    // Resubmitting the merge is based on the latest version
+    const mergedSaveResponse = await postPath(filename, {
+      previousContentHash: secondSaveResponse
+        .$1(hashInput)
+        .getAttribute("value")!,
+      content: content.replace("Original Heading", "Merged Heading"),
+    })
+    assert.match(mergedSaveResponse.responseText, /updated successfully/i)
+    assert.match((await getPath(filename)).$1("h1").innerHTML, /Merged/)
+
+    await postPath(`${filename}?delete&delete-confirm`)
+  },
+)
+
+test(
+  "Can move a page and links to it are rewritten",
+  { concurrency: true },
+  async (context) => {
+    const filename = tmpFileName()
+    const newFilename = tmpFileName("-moved.html")
+    const linkingFilename = tmpFileName("-linking.md")
+    const readonlyFilename = tmpFileName("-readonly.md")
+    await postPath(`/?create`, {
+      contentPath: filename,
+      content: html`<!doctype html>
+        <html lang="en-US">
+          <head>
+            <title>Test page to move</title>
+          </head>
+          <body>
+            <h1>Moving Page</h1>
+            <p>
+              This is a page automatically created as part of integration test
+              <code>${context.fullName}</code>. It was supposed to be deleted,
+              but I guess that didn't work if you're looking at it?
+            </p>
+          </body>
+        </html>`,
+    })
+    await postPath(`/?create`, {
+      contentPath: linkingFilename,
+      content: `# Linking page\n\nSee [the moving page](${filename}).\n`,
+    })
+    const readonlyContent = `---\nreadonly: true\n---\n# Read-only linking page\n\nSee [the moving page](${filename}).\n`
+    await postPath(`/?create`, {
+      contentPath: readonlyFilename,
+      content: readonlyContent,
+    })
+
+    const movePageResponse = await getPath(`${filename}?move`)
+    assert.ok(
+      movePageResponse.$1(`form[action="${filename}?move"][method="POST"]`),
+    )
+    assert.equal(
+      movePageResponse.$1("input[name=newContentPath]").getAttribute("value"),
+      filename,
+    )
+    await validateAssertAndReport(
+      movePageResponse.responseText,
+      movePageResponse.url,
+    )
+
+    const moveResponse = await postPath(`${filename}?move`, {
+      newContentPath: newFilename,
+    })
+    assert.match(moveResponse.$1("[role=status]").innerText, /moved/i)
+    assert.match(moveResponse.$1("[role=status]").innerText, /1 entry/i)
+    // Read-only entries are left alone, but named
+    assert.ok(moveResponse.$1(`[role=status] a[href="${readonlyFilename}"]`))
+    assert.equal(
+      (await getPath(`${readonlyFilename}?raw&nocontainer`)).responseText,
+      readonlyContent,
+    )
+
+    await getPath(filename, 404)
+    assert.match((await getPath(newFilename)).$1("h1").innerHTML, /Moving/)
+    const linkingRaw = await getPath(`${linkingFilename}?raw`)
+    assert.match(
+      linkingRaw.responseText,
+      new RegExp(`\\(${newFilename.replaceAll(/\$/g, "\\$")}\\)`),
+    )
+
+    // Can't move onto an existing page
+    await postPath(
+      `${newFilename}?move`,
+      { newContentPath: linkingFilename },
+      422,
+    )
+
+    await postPath(`${newFilename}?delete&delete-confirm`)
+    await postPath(`${linkingFilename}?delete&delete-confirm`)
+    await postPath(`${readonlyFilename}?meta`, {
+      metaName: "readonly",
+      metaAction: "remove",
+    })
+    await postPath(`${readonlyFilename}?delete&delete-confirm`)
+  },
+)
+
+test(
+  "Can append to a page, creating it first if necessary",
+  { concurrency: true },
+  async () => {
+    const filename = tmpFileName(".md")
+    await postPath(`${filename}?append`, { content: "- first" })
+    await postPath(`${filename}?append`, { content: "- second" })
+    assert.equal(
+      (await getPath(`${filename}?raw&nocontainer`)).responseText,
+      "- first\n\n- second\n",
+    )
+    await postPath(`${filename}?delete&delete-confirm`)
+
+    const htmlFilename = tmpFileName()
+    await postPath(`/?create`, {
+      contentPath: htmlFilename,
+      content: `<!doctype html>
+<html lang="en-US">
+  <head>
+    <title>Append test page</title>
+  </head>
+  <body>
+    <ul id="log"><li>first</li></ul>
+  </body>
+</html>`,
+    })
+    await postPath(`${htmlFilename}?append`, {
+      content: "<li>second</li>",
+      selector: "#log",
+    })
+    const response = await getPath(htmlFilename)
+    assert.deepEqual(
+      response.$("#log li").map((li) => li.innerText),
+      ["first", "second"],
+    )
+    await postPath(
+      `${htmlFilename}?append`,
+      { content: "<li>third</li>", selector: "#missing" },
+      400,
+    )
+    await postPath(`${htmlFilename}?delete&delete-confirm`)
+  },
+)
+
+test("Can patch one element of a page", { concurrency: true }, async () => {
+  const filename = tmpFileName()
+  await postPath(`/?create`, {
+    contentPath: filename,
+    content: `<!doctype html>
+<html lang="en-US">
+  <head>
+    <title>Patch test page</title>
+  </head>
+  <body>
+    <p id="status">Pending</p>
+    <p id="other">Untouched</p>
+  </body>
+</html>`,
+  })
+  const previousContentHash = (await getPath(`${filename}?edit`))
+    .$1("input[name=previousContentHash]")
+    .getAttribute("value")!
+
+  await postPath(`${filename}?patch`, {
+    selector: "#status",
+    content: "In progress",
+  })
+  assert.equal((await getPath(filename)).$1("#status").innerText, "In progress")
+
+  // Also through the HTTP method
+  const response = await fetch(`http://localhost:${port}${filename}`, {
+    method: "PATCH",
+    body: new URLSearchParams({ selector: "#status", content: "Done" }),
+    headers: { cookie: csrf.cookie, "X-CSRF-Token": csrf.csrfToken },
+  })
+  assert.strictEqual(response.status, 200)
+  const { $1 } = await getPath(filename)
+  assert.equal($1("#status").innerText, "Done")
+  assert.equal($1("#other").innerText, "Untouched")
+
+  await postPath(
+    `${filename}?patch`,
+    { selector: "#missing", content: "Nothing" },
+    400,
+  )
+  // Patching from a stale version is a conflict
+  await postPath(
+    `${filename}?patch`,
+    { selector: "#status", content: "Stale", previousContentHash },
+    409,
+  )
+
+  await postPath(`${filename}?delete&delete-confirm`)
+})
+
+test(
+  "Can add and remove keywords without editing the whole page",
+  { concurrency: true },
+  async () => {
+    const filename = tmpFileName(".md")
+    await postPath(`/?create`, {
+      contentPath: filename,
+      content: "# Keyword test page\n\nBody stays the same.\n",
+    })
+    const keyword = `test-keyword-${Date.now()}`
+    await postPath(`${filename}?meta`, {
+      metaName: "keywords",
+      metaAction: "add",
+      metaValue: keyword,
+    })
+    assert.equal(
+      (await getPath(`${filename}?raw&nocontainer`)).responseText,
+      `---\nkeywords:\n  - ${keyword}\n---\n# Keyword test page\n\nBody stays the same.\n`,
+    )
+
+    const editPage = await getPath(`${filename}?edit`)
+    assert.ok(
+      editPage.$1(`form[action="${filename}?meta"] input[value="${keyword}"]`),
+    )
+    await validateAssertAndReport(editPage.responseText, editPage.url)
+
+    await postPath(`${filename}?meta`, {
+      metaName: "keywords",
+      metaAction: "remove",
+      metaValue: keyword,
+    })
+    assert.equal(
+      (await getPath(`${filename}?raw&nocontainer`)).responseText,
+      `---\nkeywords: []\n---\n# Keyword test page\n\nBody stays the same.\n`,
+    )
+    await postPath(
+      `${filename}?meta`,
+      { metaName: "keywords", metaAction: "toggle" },
+      400,
+    )
+
+    await postPath(`${filename}?delete&delete-confirm`)
+  },
+)
+
+test("Can upload a file", { concurrency: true }, async () => {
+  const name = tmpFileName(".png").split("/").at(-1)!
+  const bytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff])
+  const body = new FormData()
+  body.append("directory", "/uploads/")
+  body.append("file", new Blob([bytes], { type: "image/png" }), name)
+  const { url, responseText, $1 } = await postPath(`/?upload`, body)
+  const uploaded = `/uploads/${name}`
+
+  assert.match($1("h1").innerText, new RegExp(name))
+  assert.match(responseText, new RegExp(`!\\[${name}\\]\\(${uploaded}\\)`))
+  assert.ok($1(`img[src="${uploaded}"]`))
+  await validateAssertAndReport(responseText, url)
+
+  const response = await fetch(`http://localhost:${port}${uploaded}`)
+  assert.equal(response.headers.get("content-type"), "image/png")
+  assert.deepEqual(Buffer.from(await response.arrayBuffer()), bytes)
+
+  await postPath(`/?upload`, new FormData(), 400)
+  // Only uploads and shares take files, and only so many
+  const misplaced = new FormData()
+  misplaced.append("content", "Not this way")
+  misplaced.append("file", new Blob([bytes], { type: "image/png" }), name)
+  await postPath(`${uploaded}?edit`, misplaced, 400)
+  const tooMany = new FormData()
+  for (let i = 0; i <= settings.maxUploadFiles; i++) {
+    tooMany.append("file", new Blob([bytes], { type: "image/png" }), name)
+  }
+  await postPath(`/?upload`, tooMany, 400)
+  await postPath(`${uploaded}?delete&delete-confirm`)
+})
+
+test(
+  "Files shared to the share target are stored",
+  { concurrency: true },
+  async () => {
+    const name = tmpFileName(".csv").split("/").at(-1)!
+    const body = new FormData()
+    body.append("title", "Shopping")
+    body.append(
+      "lists",
+      new Blob(["item,count\nmilk,2\n"], { type: "text/csv" }),
+      name,
+    )
+    const { url, responseText, $1 } = await postPath(
+      configuredFiles.sharedContentReceiver,
+      body,
+    )
+    const csvPath = `/assets/shared/${name}`
+    const tablePath = csvPath.replace(/\.csv$/, ".html")
+    assert.ok($1(`a[href="${csvPath}"]`))
+    assert.ok($1(`form[action="/?create"] input[name=content]`))
+    assert.match(responseText, new RegExp(`\\[${name}\\]\\(${tablePath}\\)`))
+    await validateAssertAndReport(responseText, url)
+
+    assert.equal((await getPath(csvPath)).responseText, "item,count\nmilk,2\n")
+    assert.deepEqual(
+      (await getPath(tablePath)).$("td").map((td) => td.innerText),
+      ["milk", "2"],
+    )
+    const audited = (
+      await readFile(
+        `${configuredFiles.testDirectory}${configuredFiles.auditLog}`,
+        "utf8",
+      )
+    )
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => JSON.parse(line))
+      .filter(({ command }) => command === "share")
+      .map(({ operation, contentPath }) => [operation, contentPath])
+    assert.deepEqual(
+      audited.filter(([, contentPath]) =>
+        [csvPath, tablePath].includes(contentPath),
+      ),
+      [
+        ["create", csvPath],
+        ["create", tablePath],
+      ],
+    )
+
+    await postPath(`${csvPath}?delete&delete-confirm`)
+    await postPath(`${tablePath}?delete&delete-confirm`)
+  },
+)
+
+test("Can get the login page", { concurrency: true }, async () => {
+  const { url, responseText, $1 } = await getPath(configuredFiles.loginPage)
+  assert.match($1("h1").innerText, /Log In/)
+  // The test server has no users, so anyone can edit
+  assert.match(responseText, /anyone can make\s+changes/)
+  await validateAssertAndReport(responseText, url)
+})
+
+test(
+  "Editors see the details of errors in queries",
+  { concurrency: true },
+  async () => {
+    const filename = tmpFileName()
+    await postPath(
+      `/?create`,
+      {
+        contentPath: filename,
+        content: `<!doctype html>
+<html lang="en-US">
+  <head>
+    <title>Broken query page</title>
+  </head>
+  <body>
+    <query-content q="notAParameter.property"></query-content>
+  </body>
+</html>`,
+      },
+      // Redirected to the new page, which has the error
+      522,
+    )
+    // The test server has no users, so everyone is an editor
+    const { $1, responseText } = await getPath(filename, 522)
+    assert.equal($1("pre").innerText, "notAParameter.property")
+    assert.ok($1(`a[href="${filename}"]`))
+    assert.match(responseText, /line <code[^>]*>7<\/code>/)
+    await postPath(`${filename}?delete&delete-confirm`)
+  },
+)
+
+test(
+  "Changes need the token from the wiki's own forms",
+  { concurrency: true },
+  async () => {
+    const contentPath = `/${tmpFileName(".md").split("/").at(-1)!}`
+    const createPageUrl = `http://localhost:${port}${configuredFiles.defaultCreateTemplateFile}`
+    const formToken = (responseText: string) =>
+      parseHtml(responseText)
+        .querySelector("form[method=POST] input[name=csrfToken]")!
+        .getAttribute("value")
+    // Without a cookie, the page gives a new token along with the cookie
+    const newVisitor = await fetch(createPageUrl)
+    const newCookie = newVisitor.headers.get("set-cookie")!.split(";")[0]
+    assert.match(newCookie, /^htmlWikiCsrfToken=[0-9a-f]{64}$/)
+    assert.equal(formToken(await newVisitor.text()), newCookie.split("=")[1])
+    // With one, the page uses it
+    const { response, responseText } = await getPath(
+      configuredFiles.defaultCreateTemplateFile,
+    )
+    assert.equal(response.headers.get("set-cookie"), null)
+    assert.equal(formToken(responseText), csrf.csrfToken)
+
+    const create = (headers: Record<string, string>, csrfToken?: string) =>
+      fetch(`http://localhost:${port}/?create`, {
+        method: "POST",
+        body: new URLSearchParams({
+          contentPath,
+          content: "# Forged",
+          ...(csrfToken ? { csrfToken } : {}),
+        }),
+        headers,
+        redirect: "manual",
+      })
+    const otherToken = "0".repeat(64)
+    for (const response of [
+      await create({}),
+      await create({ cookie: csrf.cookie }),
+      await create({ cookie: csrf.cookie }, otherToken),
+      await create({}, csrf.csrfToken),
+      await create(
+        { cookie: `htmlWikiCsrfToken=${otherToken}` },
+        csrf.csrfToken,
+      ),
+    ]) {
+      assert.equal(response.status, 403)
+      assert.match(await response.text(), /reload the page/)
+    }
+    // Commands in the query string of a GET are no different
+    await getPath(`${contentPath}?command=create&content=Forged`, 403)
+    await getPath(contentPath, 404)
+
+    assert.equal(
+      (await create({ cookie: csrf.cookie }, csrf.csrfToken)).status,
+      303,
+    )
+    await postPath(`${contentPath}?delete&delete-confirm`)
+  },
+)
+
+test(
+  "Changes are recorded in the audit log",
+  { concurrency: true },
+  async () => {
+    const contentPath = `/${tmpFileName(".md").split("/").at(-1)!}`
+    const movedContentPath = contentPath.replace(/\.md$/, "-moved.md")
+    await postPath("/?create", { contentPath, content: "# First" })
+    await postPath(`${contentPath}?edit`, { content: "# Second" })
+    await postPath(`${contentPath}?append`, { content: "More" })
+    await postPath(`${contentPath}?move`, { newContentPath: movedContentPath })
+    await postPath(`${movedContentPath}?delete&delete-confirm`)
+
+    const records = (
+      await readFile(
+        `${configuredFiles.testDirectory}${configuredFiles.auditLog}`,
+        "utf8",
+      )
+    )
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => JSON.parse(line))
+      .filter(
+        (record) =>
+          record.contentPath === contentPath ||
+          record.contentPath === movedContentPath,
+      )
+    assert.deepEqual(
+      records.map(({ operation, command }) => [operation, command]),
+      [
+        ["create", "create"],
+        ["update", "update"],
+        ["update", "append"],
+        ["move", "move"],
+        ["delete", "delete"],
+      ],
+    )
+    const [created, updated, , moved, deleted] = records
+    assert.equal(created.previousContentHash, undefined)
+    assert.equal(updated.previousContentHash, created.contentHash)
+    assert.notEqual(updated.contentHash, created.contentHash)
+    assert.equal(moved.newContentPath, movedContentPath)
+    assert.equal(deleted.contentHash, undefined)
+    assert.match(created.clientAddress, /127\.0\.0\.1|::1/)
+    assert.ok(typeof created.timestampMs === "number")
+
+    // Viewable and filterable
+    const { $ } = await getPath(
+      `${configuredFiles.auditLogPage}?entry=${movedContentPath}`,
+    )
+    assert.deepEqual(
+      $("tbody tr").map((row) => row.querySelectorAll("td")[1].innerText),
+      ["delete", "move"],
+    )
+    const { $1 } = await getPath(
+      `${configuredFiles.auditLogPage}?entry=${contentPath}&operation=create`,
+    )
+    assert.match($1("tbody tr").innerText, new RegExp(contentPath))
+    // And from templates
+    const query = `site.auditLog({ contentPath: '${contentPath}', command: 'append' }),p=>p.length`
+    const { $1: $1Query } = await getPath(
+      `${configuredFiles.queryPageTemplate}?query=${encodeURIComponent(query)}`,
+    )
+    assert.match($1Query("main pre").innerHTML, /copy-target>1</)
+  },
+)
+
+test(
+  "Read-only pages can't change until the flag is removed",
+  { concurrency: true },
+  async () => {
+    const filename = tmpFileName(".html")
+    const content = `<!doctype html><html><head><title>Protected</title><meta itemprop="readonly" /></head><body><p>Important</p></body></html>`
+    await postPath(`/?create`, { contentPath: filename, content })
+    const page = await getPath(filename)
+    assert.equal(page.$1(`a[title="Edit this page"]`), null)
+
+    const readonlyPage = await getPath(`${filename}?edit`, 403)
+    assert.match(readonlyPage.$1("h1").innerText, /is read-only/)
+    assert.ok(readonlyPage.$1(`form[action="${filename}?meta"]`))
+    await validateAssertAndReport(readonlyPage.responseText, readonlyPage.url)
+    await getPath(`${filename}?move`, 403)
+    await postPath(`${filename}?delete`, {}, 403)
+
+    await postPath(`${filename}?update`, { content: "<p>Changed</p>" }, 403)
+    await postPath(
+      `${filename}?meta`,
+      { metaName: "keywords", metaAction: "add", metaValue: "protected" },
+      403,
+    )
+    const { responseText } = await postPath(
+      `${filename}?delete&delete-confirm`,
+      {},
+      403,
+    )
+    assert.match(responseText, /is read-only/)
+    assert.equal(
+      (await getPath(`${filename}?raw&nocontainer`)).responseText,
+      content,
+    )
+
+    await postPath(`${filename}?meta`, {
+      metaName: "readonly",
+      metaAction: "remove",
+    })
+    assert.ok((await getPath(filename)).$1(`a[title="Edit this page"]`))
+    await getPath(`${filename}?edit`)
+    await postPath(`${filename}?delete&delete-confirm`)
+  },
+)
+
+test(
+  "Entries and directories choose layouts which nest",
+  { concurrency: true },
+  async () => {
+    const directory = tmpFileName("-layouts")
+    const layout = (name: string, extra: string = "") =>
+      html`<!doctype html>
+        <html>
+          <head>
+            <title>${name} layout</title>
+            ${extra}
+          </head>
+          <body>
+            <section class="${name}-layout">
+              <query-content q="content"></query-content>
+            </section>
+          </body>
+        </html>`
+    const files = {
+      [`${directory}/_layout.html`]: layout("directory"),
+      [`${directory}/blog.html`]: layout(
+        "blog",
+        `<meta itemprop="layout" content="${directory}/card.html" />`,
+      ),
+      [`${directory}/card.html`]: layout("card"),
+      [`${directory}/loop.html`]: layout(
+        "loop",
+        `<meta itemprop="layout" content="${directory}/loop.html" />`,
+      ),
+      [`${directory}/plain.md`]: "# Plain\n",
+      [`${directory}/post.md`]: `---\nlayout: ${directory}/blog.html\n---\n# Post\n`,
+      [`${directory}/looped.md`]: `---\nlayout: ${directory}/loop.html\n---\n# Looped\n`,
+    }
+    for (const [contentPath, content] of Object.entries(files)) {
+      // Not to the looping entries, which can't be shown
+      await postPath(`/?create`, { contentPath, content, redirect: "/" })
+    }
+
+    // The directory's layout, wrapped by the global page
+    const plain = await getPath(`${directory}/plain.md`)
+    assert.match(
+      plain.$1("main section.directory-layout h1").innerText,
+      /Plain/,
+    )
+    assert.ok(plain.$1(`a[title="Edit this page"]`))
+    await validateAssertAndReport(plain.responseText, plain.url)
+
+    // Its own layout, which has its own layout, which has the directory's
+    const post = await getPath(`${directory}/post.md`)
+    assert.match(
+      post.$1(
+        "main section.directory-layout section.card-layout section.blog-layout h1",
+      ).innerText,
+      /Post/,
+    )
+    // The directory's layout is only wrapped by the global page
+    const directoryLayout = await getPath(`${directory}/_layout.html`)
+    assert.ok(directoryLayout.$1("main section.directory-layout"))
+    assert.equal(directoryLayout.$("section.directory-layout").length, 1)
+
+    const looped = await getPath(`${directory}/looped.md`, 508)
+    assert.match(looped.responseText, /Layouts wrap each other/)
+
+    for (const contentPath of Object.keys(files)) {
+      await postPath(`${contentPath}?delete&delete-confirm`)
+    }
+  },
+)
+
+test("A traced page shows how it rendered", { concurrency: true }, async () => {
+  const contentPath = tmpFileName(".html")
+  await postPath(`/?create`, {
+    contentPath,
+    content: html`<!doctype html>
+      <html>
+        <head>
+          <title>Traced</title>
+        </head>
+        <body>
+          <set- greeting="'Hello'"></set->
+          <p x-content="greeting"></p>
+        </body>
+      </html>`,
+    redirect: "/",
+  })
+
+  const untraced = await getPath(contentPath)
+  assert.equal(untraced.$1("details[render-trace]"), null)
+
+  const traced = await getPath(`${contentPath}?trace`)
+  await validateAssertAndReport(traced.responseText, traced.url)
+  const rows = traced
+    .$("details[render-trace] tbody tr")
+    .map((row) => row.querySelectorAll("td").map((cell) => cell.text.trim()))
+  assert.ok(rows.length > 0)
+  const row = (kind: string, what: string) =>
+    rows.find((cells) => cells[0] === kind && cells[2] === what)
+  assert.match(row("parameter", "trace")![3], /\(query param\)/)
+  assert.equal(row("parameter", "canEdit")![1], "server")
+  assert.match(row("parameter", "canEdit")![3], /\(session\)/)
+  const greeting = row("parameter", "greeting")!
+  assert.equal(greeting[1], `${contentPath}:7`)
+  assert.equal(greeting[3], `"Hello" (query param)`)
+  assert.match(row("query", "greeting")![3], /^string in [\d.]+ms$/)
+  assert.equal(row("tag", "<set->")![1], `${contentPath}:7`)
+
+  // What the server sets for itself can't come from the request
+  for (const name of [
+    "renderTrace",
+    "layoutChain",
+    "originalParameters",
+    "sharedFiles",
+  ]) {
+    await getPath(`${contentPath}?${name}=x`)
+    await postPath(configuredFiles.sharedContentReceiver, { [name]: "x" })
+  }
+
+  await postPath(`${contentPath}?delete&delete-confirm`)
+})
+
+test(
+  "A failing query is marked in the edit preview instead of the page",
+  { concurrency: true },
+  async () => {
+    const contentPath = tmpFileName(".html")
+    await postPath(`/?create`, {
+      contentPath,
+      content: html`<!doctype html>
+        <html>
+          <head>
+            <title>Partly broken</title>
+          </head>
+          <body>
+            <p class="broken" x-content="notDefined.anywhere"></p>
+            <p class="fine" x-content="'Still rendered'"></p>
+          </body>
+        </html>`,
+      redirect: "/",
+    })
+
+    const page = await getPath(contentPath, 522)
+    assert.match(page.responseText, /notDefined\.anywhere/)
+
+    const lenient = await getPath(`${contentPath}?lenient`)
+    assert.match(
+      lenient.$1("p.broken [template-error]").innerText,
+      /Could not process query &#039;notDefined.anywhere&#039;/,
+    )
+    assert.equal(lenient.$1("p.fine").innerText, "Still rendered")
+
+    const edit = await getPath(`${contentPath}?edit`)
+    await validateAssertAndReport(edit.responseText, edit.url)
+    assert.ok(edit.$1("p.broken [template-error]"))
+    assert.equal(edit.$1("p.fine").innerText, "Still rendered")
+
+    await postPath(`${contentPath}?delete&delete-confirm`)
+  },
+)
+
 test(
   "Getting the index page has the features from the global template",
   { concurrency: true },
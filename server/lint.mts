@@ -0,0 +1,265 @@
+/**
+ * Finding template breakage before anyone sees it. Every query in every entry
+ * is parsed, without being run, along with the mistakes `applyTemplating` would
+ * only find while rendering, or not at all, like links to missing entries.
+ */
+import { parse as parseHtml, HTMLElement } from "node-html-parser"
+import { dirname, join } from "node:path/posix"
+import { builtInElements, componentContentPathFor } from "./dom.mts"
+import { type FileCache, type FileContentsAndDetails } from "./fileCache.mts"
+import { addWikilinkDefinitions, parseQuery } from "./queryLanguage.mts"
+import {
+  markdownTransclusionsToHtml,
+  parseTransclusionSource,
+} from "./transclusion.mts"
+import { parseFrontmatter, renderMarkdown } from "./utilities.mts"
+import debug from "debug"
+const log = debug("server:lint")
+
+export type LintDiagnostic = {
+  contentPath: string
+  // Both start at 1. Markdown is rendered first, so lines there are a guess
+  line?: number
+  column?: number
+  message: string
+}
+
+export const formatDiagnostic = ({
+  contentPath,
+  line,
+  column,
+  message,
+}: LintDiagnostic) =>
+  `${[contentPath, line, column].filter((part) => part !== undefined).join(":")}: ${message}`
+
+// Attributes whose values are queries, besides `x-` ones and all of `<set->`'s
+const queryAttributes: Record<string, Array<string>> = {
+  "MAP-LIST": ["q"],
+  "QUERY-CONTENT": ["q"],
+  "DROP-IF": ["truthy", "falsy"],
+  "KEEP-IF": ["truthy", "falsy"],
+  "IF-": ["test"],
+  "ELSE-IF-": ["test"],
+  "SWITCH-": ["on"],
+  "CASE-": ["value"],
+  "RENDER-": ["map", "content", "if"],
+  "R-": ["map", "content", "if"],
+}
+// Attributes of `<render->` which aren't queries
+const renderFlags = ["debugger", "allow-one"]
+
+/**
+ * Custom elements which are only styled, like `<center-column-layout>`, are
+ * as good as defined. Those are the names in any stylesheet, or given to
+ * `customElements.define()` in any script
+ **/
+export const definedCustomElements = async (fileCache: FileCache) => {
+  const names = new Set<string>()
+  for (const entry of await fileCache.getListOfFilesAndDetails()) {
+    const { contentPath } = entry
+    const { content } = entry.originalContent
+    if (/\.css$/.test(contentPath)) {
+      addCustomElementNames(names, content)
+    } else if (entry.renderability !== "static") {
+      for (const style of htmlOf(entry).querySelectorAll("style")) {
+        addCustomElementNames(names, style.text)
+      }
+    } else if (!/\.m?js$/.test(contentPath)) {
+      continue
+    }
+    for (const [_, name] of content.matchAll(
+      /customElements\.define\(\s*["'`]([^"'`]+)/g,
+    )) {
+      names.add(name)
+    }
+  }
+  return names
+}
+
+const addCustomElementNames = (names: Set<string>, css: string) => {
+  for (const [name] of css.matchAll(/[a-z][a-z0-9]*-[a-z0-9-]*/g)) {
+    names.add(name)
+  }
+}
+
+const htmlOf = (entry: FileContentsAndDetails) => {
+  const { content } = entry.originalContent
+  if (entry.renderability !== "markdown") return parseHtml(content)
+  return parseHtml(
+    renderMarkdown(
+      addWikilinkDefinitions(
+        markdownTransclusionsToHtml(parseFrontmatter(content).restOfContent),
+      ),
+    ),
+  )
+}
+
+// The path part of a link to another entry, or nothing for links elsewhere
+const linkedPath = (href: string) => {
+  if (/^([a-z][a-z0-9+.-]*:|\/\/|#|\?)/i.test(href)) return undefined
+  return href.replace(/[?#].*$/, "") || undefined
+}
+
+// As it's written in Markdown
+const decoded = (path: string) => {
+  try {
+    return decodeURIComponent(path)
+  } catch {
+    return path
+  }
+}
+
+const entryExists = (
+  fileCache: FileCache,
+  pathOrTitle: string,
+  fromContentPath: string,
+) => {
+  const candidates = [pathOrTitle, pathOrTitle.replace(/(.)\/$/, "$1")]
+  if (!pathOrTitle.startsWith("/")) {
+    candidates.push(join(dirname(fromContentPath), pathOrTitle))
+  }
+  return candidates.some((candidate) => {
+    try {
+      return fileCache.getByContentPathOrContentTitle(candidate) !== undefined
+    } catch {
+      // Not even a valid URI
+      return false
+    }
+  })
+}
+
+export const lintEntry = ({
+  entry,
+  fileCache,
+  customElements,
+}: {
+  entry: FileContentsAndDetails
+  fileCache: FileCache
+  customElements: Set<string>
+}): Array<LintDiagnostic> => {
+  const { contentPath, renderability } = entry
+  const source = entry.originalContent.content
+  const diagnostics: Array<LintDiagnostic> = []
+  // Markdown has been rendered, so look for what's wrong in the source instead
+  const report = (element: HTMLElement, message: string, needle: string) => {
+    const position =
+      renderability === "markdown" ? source.indexOf(needle) : element.range[0]
+    if (position === -1) {
+      diagnostics.push({ contentPath, message })
+      return
+    }
+    const before = source.slice(0, position)
+    const lastNewline = before.lastIndexOf("\n")
+    diagnostics.push({
+      contentPath,
+      line: before.split("\n").length,
+      column: position - lastNewline,
+      message,
+    })
+  }
+  const checkQuery = (element: HTMLElement, key: string, query: string) => {
+    try {
+      parseQuery(query)
+    } catch (error) {
+      report(
+        element,
+        `Query '${query}' in '${key}' doesn't parse: ${error instanceof Error ? error.message : error}`,
+        query,
+      )
+    }
+  }
+
+  for (const element of htmlOf(entry).querySelectorAll("*")) {
+    const { tagName } = element
+    const tag = `<${tagName.toLowerCase()}>`
+    const opening = `<${element.rawTagName}`
+    const attributes = Object.entries(element.attributes)
+
+    for (const [key, value] of attributes) {
+      if (
+        /^x(-escape)?-/.test(key) ||
+        queryAttributes[tagName]?.includes(key) ||
+        (tagName === "SET-" && key !== "scope")
+      ) {
+        checkQuery(element, key, value)
+      }
+    }
+
+    switch (tagName) {
+      case "MAP-LIST":
+        if (!element.hasAttribute("q")) {
+          report(element, `${tag} needs a query in 'q'`, opening)
+        }
+        break
+      case "QUERY-CONTENT":
+        if (!element.hasAttribute("q")) {
+          report(element, `${tag} needs a query in 'q'`, opening)
+        }
+        for (const [key] of attributes) {
+          if (key !== "q") {
+            report(element, `${tag} only takes 'q', not '${key}'`, opening)
+          }
+        }
+        break
+      case "RENDER-":
+      case "R-":
+        if (element.hasAttribute("map") && element.hasAttribute("content")) {
+          report(element, `${tag} can only use one of map or content`, opening)
+        }
+        for (const [key] of attributes) {
+          if (
+            !queryAttributes[tagName].includes(key) &&
+            !renderFlags.includes(key)
+          ) {
+            report(element, `Unhandled ${tag} attribute '${key}'`, opening)
+          }
+        }
+        break
+      case "TRANSCLUDE-": {
+        const src = element.getAttribute("src")
+        if (src === undefined) {
+          report(element, `${tag} needs an entry in 'src'`, opening)
+          break
+        }
+        const { contentPathOrContentTitle } = parseTransclusionSource(src)
+        if (!entryExists(fileCache, contentPathOrContentTitle, contentPath)) {
+          report(element, `Transcludes missing entry '${src}'`, src)
+        }
+        break
+      }
+      case "A": {
+        const href = element.getAttribute("href")
+        const path = href === undefined ? undefined : linkedPath(href)
+        if (path && !entryExists(fileCache, path, contentPath)) {
+          report(element, `Links to missing entry '${href}'`, decoded(path))
+        }
+        break
+      }
+    }
+
+    if (
+      tagName.includes("-") &&
+      !builtInElements.has(tagName) &&
+      !customElements.has(tagName.toLowerCase()) &&
+      !componentContentPathFor(element, fileCache)
+    ) {
+      report(element, `Unknown custom element ${tag}`, opening)
+    }
+  }
+  return diagnostics
+}
+
+export const lint = async ({
+  fileCache,
+}: {
+  fileCache: FileCache
+}): Promise<Array<LintDiagnostic>> => {
+  const customElements = await definedCustomElements(fileCache)
+  const diagnostics: Array<LintDiagnostic> = []
+  for (const entry of await fileCache.getListOfFilesAndDetails()) {
+    if (entry.renderability === "static") continue
+    log(`Linting ${entry.contentPath}`)
+    diagnostics.push(...lintEntry({ entry, fileCache, customElements }))
+  }
+  return diagnostics
+}
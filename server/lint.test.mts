@@ -0,0 +1,97 @@
+import test from "node:test"
+import assert from "node:assert"
+import { execFile } from "node:child_process"
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { promisify } from "node:util"
+import { fileURLToPath } from "node:url"
+import { formatDiagnostic, lint } from "./lint.mts"
+import { buildCache } from "./fileCache.mts"
+
+const o = { concurrency: true }
+
+const createFixtures = async () => {
+  const directory = await mkdtemp(join(tmpdir(), "html-wiki-lint-"))
+  await mkdir(join(directory, "system", "components"), { recursive: true })
+  const files = {
+    "system/components/note-card.html": "<aside><slot-></slot-></aside>",
+    "fine.html": [
+      "<html><head><style>styled-box { display: block; }</style></head>",
+      "<body>",
+      "<p x-content=\"title ?? 'Fine'\"></p>",
+      "<styled-box><note-card>Hi</note-card></styled-box>",
+      '<a href="/broken.md">Broken</a> <a href="Fine Title">Title</a>',
+      '<a href="https://example.com">Out</a> <a href="?edit">Edit</a>',
+      '<map-list q="[1, 2]"><set- n="currentListItem"></set-></map-list>',
+      "</body></html>",
+    ].join("\n"),
+    "broken.md": [
+      "# Fine Title",
+      "",
+      "Links to [Nowhere] and [fine](/fine.html).",
+      "",
+      "![[Missing#Section]]",
+    ].join("\n"),
+    "bad.html": [
+      "<html><body>",
+      '<p x-content="oops("></p>',
+      "<map-list><b>No query</b></map-list>",
+      '<query-content q="title" extra="1"></query-content>',
+      '<render- content="title" sideways="1"></render->',
+      '<keep-if truthy="a b"></keep-if>',
+      "<mystery-element></mystery-element>",
+      "</body></html>",
+    ].join("\n"),
+  }
+  for (const [name, content] of Object.entries(files)) {
+    await writeFile(join(directory, name), content)
+  }
+  return directory
+}
+
+test("Lint finds broken templates, queries and links", o, async () => {
+  const directory = await createFixtures()
+  try {
+    const fileCache = await buildCache({ searchDirectories: [directory] })
+    const diagnostics = (await lint({ fileCache })).map(formatDiagnostic)
+    assert.deepEqual(diagnostics.toSorted(), [
+      "/bad.html:2:1: Query 'oops(' in 'x-content' doesn't parse: Unexpected token (1:5)",
+      "/bad.html:3:1: <map-list> needs a query in 'q'",
+      "/bad.html:4:1: <query-content> only takes 'q', not 'extra'",
+      "/bad.html:5:1: Unhandled <render-> attribute 'sideways'",
+      "/bad.html:6:1: Query 'a b' in 'truthy' doesn't parse: Unexpected token (1:2)",
+      "/bad.html:7:1: Unknown custom element <mystery-element>",
+      "/broken.md:3:11: Links to missing entry 'Nowhere'",
+      "/broken.md:5:4: Transcludes missing entry 'Missing#Section'",
+    ])
+  } finally {
+    await rm(directory, { recursive: true })
+  }
+})
+
+test("lint exits with an error when it finds problems", o, async () => {
+  const directory = await createFixtures()
+  try {
+    await assert.rejects(
+      promisify(execFile)(
+        process.execPath,
+        [
+          fileURLToPath(new URL("./cli.mts", import.meta.url)),
+          "lint",
+          "-u",
+          directory,
+        ],
+        { timeout: 60_000 },
+      ),
+      (error: { code: number; stdout: string }) => {
+        assert.equal(error.code, 1)
+        assert.match(error.stdout, /^\/bad\.html:2:1: Query 'oops\('/m)
+        assert.match(error.stdout, /8 problems found/)
+        return true
+      },
+    )
+  } finally {
+    await rm(directory, { recursive: true })
+  }
+})
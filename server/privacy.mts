@@ -0,0 +1,62 @@
+/**
+ * Entries only for those who can edit the wiki. An entry is private when its
+ * metadata says so, `<meta itemprop="private" />` or `private: true` in
+ * frontmatter, or when it's covered by a line of the private rules file.
+ *
+ * Each line of the rules file is a content path. A path ending in `/` covers
+ * everything in that directory. Blank lines and lines starting with `#` are
+ * ignored. It's read when the wiki starts.
+ */
+import { readFile as fsReadFile } from "node:fs/promises"
+import { filePath } from "./filesystem.mts"
+import { configuredFiles } from "./configuration.mts"
+import { isMetaFlagSet, type Meta } from "./dom.mts"
+import debug from "debug"
+const log = debug("server:privacy")
+
+export type PrivateRules = Array<string>
+
+export const parsePrivateRules = (content: string): PrivateRules =>
+  content
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#"))
+    .map((line) => (line.startsWith("/") ? line : `/${line}`))
+
+export const readPrivateRules = async ({
+  directory,
+}: {
+  directory: string
+}): Promise<PrivateRules> => {
+  try {
+    const rules = parsePrivateRules(
+      await fsReadFile(
+        filePath({ contentPath: configuredFiles.privateRules, directory }),
+        "utf8",
+      ),
+    )
+    log(`Read ${rules.length} private rules`)
+    return rules
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return []
+    }
+    throw error
+  }
+}
+
+export const isPrivate = ({
+  contentPath,
+  meta,
+  rules,
+}: {
+  contentPath: string
+  meta: Meta
+  rules: PrivateRules
+}) =>
+  isMetaFlagSet(meta, "private") ||
+  rules.some((rule) =>
+    rule.endsWith("/")
+      ? contentPath.startsWith(rule)
+      : contentPath === rule || contentPath.startsWith(`${rule}/`),
+  )
@@ -0,0 +1,242 @@
+import test from "node:test"
+import assert from "node:assert"
+import { execFile } from "node:child_process"
+import { mkdir, mkdtemp, readdir, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { promisify } from "node:util"
+import { fileURLToPath } from "node:url"
+import { parse } from "node-html-parser"
+import { isPrivate, parsePrivateRules } from "./privacy.mts"
+import { buildCache } from "./fileCache.mts"
+import { configuredFiles } from "./configuration.mts"
+import { siteProxy } from "./queryLanguage.mts"
+import { MissingFileQueryError } from "./error.mts"
+import { addUser } from "./authentication.mts"
+import { createServer } from "./server.mts"
+
+const o = { concurrency: true }
+
+// A public page, and private ones which link to it or share its keyword
+const createFixtures = async () => {
+  const directory = await mkdtemp(join(tmpdir(), "html-wiki-privacy-"))
+  await mkdir(join(directory, ".wiki"))
+  await mkdir(join(directory, "drafts"))
+  await writeFile(
+    join(directory, ".wiki", "private.txt"),
+    ["# Not ready yet", "/drafts/", ""].join("\n"),
+  )
+  await writeFile(
+    join(directory, "public.md"),
+    [
+      "---",
+      "keywords: [shared]",
+      "---",
+      "# Public",
+      "[Notes](/notes.html)",
+    ].join("\n"),
+  )
+  await writeFile(
+    join(directory, "notes.html"),
+    [
+      "<html><head><title>Notes</title>",
+      '<meta itemprop="private" />',
+      "</head><body><p>Not for everyone</p></body></html>",
+    ].join("\n"),
+  )
+  await writeFile(
+    join(directory, "diary.md"),
+    [
+      "---",
+      "private: true",
+      "keywords: [shared]",
+      "---",
+      "# Diary",
+      "[Public](/public.md)",
+    ].join("\n"),
+  )
+  await writeFile(join(directory, "drafts", "draft.md"), "# Draft")
+  return directory
+}
+const privateContentPaths = ["/notes.html", "/diary.md", "/drafts/draft.md"]
+
+test("Private rules cover entries and directories", o, () => {
+  const rules = parsePrivateRules(
+    ["# Comment", "", "/drafts/", "journal", "/notes.md"].join("\n"),
+  )
+  assert.deepEqual(rules, ["/drafts/", "/journal", "/notes.md"])
+  const privately = (contentPath: string, meta = {}) =>
+    isPrivate({ contentPath, meta, rules })
+  assert.ok(privately("/drafts/a.md"))
+  assert.ok(privately("/journal/2025/a.md"))
+  assert.ok(privately("/notes.md"))
+  assert.ok(!privately("/notes.md.html"))
+  assert.ok(!privately("/drafts.md"))
+  assert.ok(!privately("/public.md"))
+  assert.ok(privately("/public.md", { private: "private" }))
+  assert.ok(privately("/public.md", { private: true }))
+  assert.ok(!privately("/public.md", { private: false }))
+})
+
+test("Private entries are left out of everything", o, async () => {
+  const directory = await createFixtures()
+  try {
+    const fileCache = await buildCache({
+      searchDirectories: [directory, configuredFiles.coreDirectory],
+    })
+    for (const contentPath of privateContentPaths) {
+      assert.ok(fileCache.isPrivate(fileCache.getByContentPath(contentPath)!))
+    }
+    assert.ok(!fileCache.isPrivate(fileCache.getByContentPath("/public.md")!))
+
+    const publicFileCache = fileCache.withoutPrivate()
+    const site = siteProxy({ fileCache: publicFileCache }) as Record<
+      string,
+      any
+    >
+    const allContentPaths = (await site.allFiles).map(
+      ({ contentPath }: { contentPath: string }) => contentPath,
+    )
+    assert.ok(allContentPaths.includes("/public.md"))
+    for (const contentPath of privateContentPaths) {
+      assert.ok(!allContentPaths.includes(contentPath), contentPath)
+      assert.equal(publicFileCache.getByContentPath(contentPath), undefined)
+      assert.throws(
+        () => publicFileCache.ensureByContentPathOrContentTitle(contentPath),
+        MissingFileQueryError,
+      )
+    }
+    assert.equal(publicFileCache.getByTitle("Notes"), undefined)
+    assert.deepEqual(
+      (await site.search("Diary")).map(
+        ({ contentPath }: { contentPath: string }) => contentPath,
+      ),
+      [],
+    )
+    const fileTree = await site.fileTree
+    assert.ok(fileTree["/public.md"])
+    assert.equal(fileTree["/notes.html"], undefined)
+    assert.equal(fileTree["drafts"], undefined)
+    assert.deepEqual(
+      await publicFileCache.getBacklinksByContentPath("/public.md"),
+      [],
+    )
+    assert.deepEqual(
+      await publicFileCache.getBacklinksByContentPath("/notes.html"),
+      [],
+    )
+    assert.deepEqual(
+      await publicFileCache.getContentPathsForKeyword("shared"),
+      ["/public.md"],
+    )
+
+    // Those who can edit see everything
+    assert.deepEqual(await fileCache.getBacklinksByContentPath("/public.md"), [
+      "/diary.md",
+    ])
+    assert.equal(
+      (await fileCache.getContentPathsForKeyword("shared")).length,
+      2,
+    )
+
+    // Nor is their history, even once they're deleted and their metadata gone
+    await fileCache.removeFile({ contentPath: "/diary.md" })
+    const [revision] = await fileCache.getRevisions("/diary.md")
+    assert.equal(revision.command, "delete")
+    assert.deepEqual(await publicFileCache.getRevisions("/diary.md"), [])
+    await assert.rejects(
+      publicFileCache.getRevision("/diary.md", revision.revisionId),
+      MissingFileQueryError,
+    )
+  } finally {
+    await rm(directory, { recursive: true })
+  }
+})
+
+test("The server refuses private entries to anonymous readers", o, async () => {
+  const directory = await createFixtures()
+  const userStorePath = join(directory, ".wiki", "users.json")
+  await addUser({ userStorePath, username: "alice", password: "secret" })
+  const port = 3003
+  const fileCache = await buildCache({
+    searchDirectories: [directory, configuredFiles.coreDirectory],
+  })
+  const server = await createServer({ port, fileCache, userStorePath })
+  const request = (path: string, init: RequestInit = {}) =>
+    fetch(`http://localhost:${port}${path}`, { redirect: "manual", ...init })
+  try {
+    for (const contentPath of privateContentPaths) {
+      assert.equal((await request(contentPath)).status, 404, contentPath)
+    }
+    assert.equal((await request("/Notes")).status, 404)
+    assert.equal((await request("/public.md")).status, 200)
+    const sitemap = await (
+      await request(configuredFiles.sitemapTemplate)
+    ).text()
+    assert.match(sitemap, /public\.md/)
+    assert.doesNotMatch(sitemap, /notes\.html|diary|drafts/)
+
+    const loginPage = await request(configuredFiles.loginPage)
+    const cookies = loginPage.headers
+      .getSetCookie()
+      .map((cookie) => cookie.split(";")[0])
+    const csrfToken = parse(await loginPage.text())
+      .querySelector("input[name=csrfToken]")!
+      .getAttribute("value")!
+    const logIn = await request("/?login", {
+      method: "POST",
+      body: new URLSearchParams({
+        csrfToken,
+        username: "alice",
+        password: "secret",
+      }),
+      headers: { cookie: cookies.join("; ") },
+    })
+    assert.equal(logIn.status, 303)
+    const cookie = logIn.headers
+      .getSetCookie()
+      .map((cookie) => cookie.split(";")[0])
+      .join("; ")
+    for (const contentPath of privateContentPaths) {
+      const response = await request(contentPath, { headers: { cookie } })
+      assert.equal(response.status, 200, contentPath)
+    }
+  } finally {
+    server.cleanup()
+    await rm(directory, { recursive: true })
+  }
+})
+
+test("generate skips private entries", o, async () => {
+  const directory = await createFixtures()
+  const outDirectory = await mkdtemp(join(tmpdir(), "html-wiki-generated-"))
+  try {
+    await promisify(execFile)(
+      process.execPath,
+      [
+        fileURLToPath(new URL("./cli.mts", import.meta.url)),
+        "generate",
+        "-u",
+        directory,
+        "-o",
+        outDirectory,
+      ],
+      { timeout: 60_000 },
+    )
+    const written = await readdir(outDirectory, { recursive: true })
+    assert.ok(written.includes("public.html"))
+    assert.ok(written.includes("sitemap.html"))
+    // Nor what the wiki keeps for itself, like the audit log
+    assert.ok(!written.includes(".wiki"))
+    for (const name of [
+      "notes.html",
+      "diary.html",
+      join("drafts", "draft.html"),
+    ]) {
+      assert.ok(!written.includes(name), name)
+    }
+  } finally {
+    await rm(directory, { recursive: true })
+    await rm(outDirectory, { recursive: true })
+  }
+})
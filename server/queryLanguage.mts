@@ -1,6 +1,10 @@
 import { Temporal } from "temporal-polyfill"
 import Fuse from "fuse.js"
-import { setParameterWithSource, type ParameterValue } from "./engine.mts"
+import {
+  flattenScope,
+  setParameterWithSource,
+  type ParameterValue,
+} from "./engine.mts"
 import debug from "debug"
 import {
   disallowedParameterNames,
@@ -9,12 +13,16 @@ import {
   parseFrontmatter,
   renderMarkdown,
 } from "./utilities.mts"
-import { applyTemplating } from "./dom.mts"
-import { type FileCache } from "./fileCache.mts"
+import { applyTemplating, enterRender, type RenderChain } from "./dom.mts"
+import { type FileCache, readOnlyFileCache } from "./fileCache.mts"
+import { type AuditFilter } from "./auditLog.mts"
+import { markdownTransclusionsToHtml } from "./transclusion.mts"
 import { cleanFilePath } from "./filesystem.mts"
-import { configuredFiles } from "./configuration.mts"
+import { configuredFiles, settings } from "./configuration.mts"
+import { RenderBudgetQueryError, UsageError } from "./error.mts"
 import * as acorn from "acorn"
 import * as walk from "acorn-walk"
+import { createContext, Script } from "node:vm"
 const log = debug("server:queryLanguage")
 
 // `p` is for "pipeline". Accepts functions and calls them with the previous result
@@ -41,6 +49,8 @@ export const siteProxy = ({ fileCache }: { fileCache: FileCache }) =>
             return fileCache.getListOfFilesAndDetails()
           case "fileTree":
             return fileCache.getContentPathsByDirectoryStructure()
+          case "auditLog":
+            return (filter?: AuditFilter) => fileCache.getAuditRecords(filter)
           case "search":
             return async (query: string) => {
               const list = await fileCache.getListOfFilesAndDetails()
@@ -74,9 +84,11 @@ export const renderer =
   ({
     parameters: originalParameters,
     fileCache,
+    renderChain = [],
   }: {
     parameters: ParameterValue
     fileCache: FileCache
+    renderChain?: RenderChain
   }) =>
   async (
     contentPathOrContentTitle: string,
@@ -100,6 +112,24 @@ export const renderer =
       }
       return contentFileReadResult.content
     }
+    // Lenient all the way down, so one failing query in a rendered entry
+    // doesn't take the rest of it with it
+    if (
+      originalParameters.lenient !== undefined &&
+      parameters.lenient === undefined
+    ) {
+      setParameterWithSource(
+        parameters,
+        "lenient",
+        originalParameters.lenient,
+        "derived",
+      )
+    }
+    const nextRenderChain = enterRender(
+      renderChain,
+      contentFile.contentPath,
+      parameters,
+    )
     let content = contentFileReadResult.content
     if (
       parameters.renderMarkdown !== undefined ||
@@ -111,6 +141,7 @@ export const renderer =
         content,
         contentPath,
         fileCache,
+        transcluded: parameters.transcluded !== undefined,
       })
     }
 
@@ -125,30 +156,41 @@ export const renderer =
         fileCache,
         content,
         parameters,
+        renderChain: nextRenderChain,
       })
     ).content
   }
 
+// So that `[Some Title]` links to the entry with that title
+export const addWikilinkDefinitions = (content: string) => {
+  // Find all reference link definitions
+  const labels = Array.from(content.matchAll(/\[([^\]]+)\]([^(:]|$)/g))
+    .map(([_, label]) => label)
+    .filter((label) => /\S/.test(label))
+
+  return [
+    content,
+    "",
+    labels.map((l) => `[${l}]: <${l}> "Auto-generated wikilink"`).join("\n"),
+  ].join("\n")
+}
+
 export const specialRenderMarkdown = async ({
   content,
   contentPath,
   fileCache,
+  transcluded = false,
 }: {
   content: string
   contentPath: string
   fileCache: FileCache
+  // Part of another page, so without the details about this one
+  transcluded?: boolean
 }): Promise<string> => {
-  {
-    // Find all reference link definitions
-    const labels = Array.from(content.matchAll(/\[([^\]]+)\]([^(:]|$)/g))
-      .map(([_, label]) => label)
-      .filter((label) => /\S/.test(label))
+  content = addWikilinkDefinitions(markdownTransclusionsToHtml(content))
 
-    content += "\n"
-    content += "\n"
-    content += labels
-      .map((l) => `[${l}]: <${l}> "Auto-generated wikilink"`)
-      .join("\n")
+  if (transcluded) {
+    return renderMarkdown(parseFrontmatter(content).restOfContent)
   }
 
   {
@@ -176,6 +218,31 @@ export const specialRenderMarkdown = async ({
     </details>`
   }
 
+  {
+    // Transcluded by, only when it is
+    const transcludedBy =
+      await fileCache.getTranscludedByContentPath(contentPath)
+    if (transcludedBy.length) {
+      content += "\n"
+      content += "\n"
+      content += html`<details open>
+        <summary>Transcluded by</summary>
+        <ul>
+          ${transcludedBy
+            .map(
+              (link) =>
+                html`<li>
+                  <a href="${link}"
+                    >${fileCache.getByContentPath(link)?.meta?.title ?? link}</a
+                  >
+                </li>`,
+            )
+            .join("\n")}
+        </ul>
+      </details>`
+    }
+  }
+
   {
     // Keywords
     const fileStuff = fileCache.getByContentPath(contentPath)
@@ -238,9 +305,11 @@ export const and = (...args: unknown[]) => args.reduce((a, b) => a && b)
 export const buildMyServerPStringContext = ({
   parameters,
   fileCache,
+  renderChain = [],
 }: {
   fileCache: FileCache
   parameters: ParameterValue
+  renderChain?: RenderChain
 }): PStringContext => {
   const utilities = {
     fileCache,
@@ -264,6 +333,7 @@ export const buildMyServerPStringContext = ({
     render: renderer({
       fileCache,
       parameters,
+      renderChain,
     }),
     or,
     and,
@@ -273,17 +343,20 @@ export const buildMyServerPStringContext = ({
         buildMyServerPStringContext({
           parameters,
           fileCache,
+          renderChain,
         }),
       ),
   }
 
+  // Including those from outer scopes, e.g. for `{...parameters}`
+  const visibleParameters = flattenScope(parameters)
   return {
     ...utilities,
-    ...parameters,
+    ...visibleParameters,
 
     // Non-overide-able reference to these things to avoid possible conflicts
     // and possibly undefined parameters
-    parameters,
+    parameters: visibleParameters,
     utilities,
     delete: undefined,
   }
@@ -296,16 +369,50 @@ export const buildMyServerPStringContext = ({
 const AsyncFunction = async function () {}.constructor
 
 export type PStringContext = Record<string, unknown>
-export const pString: (
-  pArgList: string,
-  context: PStringContext,
-) => ReturnType<typeof p> = async (pArgList, context) => {
-  context = { ...context, p }
+
+// Queries are the arguments to `p`, parsed on their own
+export const parseQuery = (pArgList: string) =>
   // If this ecmaVersion becomes an issue, try https://github.com/acornjs/acorn/tree/master/acorn-loose/
-  const parsed = acorn.parse(pArgList, {
+  acorn.parse(pArgList, {
     ecmaVersion: "latest",
     allowAwaitOutsideFunction: true,
   })
+export const pString: (
+  pArgList: string,
+  context: PStringContext,
+  options?: { restricted?: boolean; timeoutMs?: number },
+) => ReturnType<typeof p> = async (
+  pArgList,
+  context,
+  {
+    restricted = settings.restrictedQueries,
+    timeoutMs = settings.queryTimeoutMs,
+  } = {},
+) => {
+  context = { ...context, p }
+  const parsed = parseQuery(pArgList)
+  if (restricted) {
+    // The whole of Object can reach constructors, e.g. with
+    // getOwnPropertyDescriptor, so only give the commonly used parts
+    context.Object = restrictedObject
+    assertRestricted(parsed, context)
+    if (context.fileCache) {
+      context.fileCache = readOnlyFileCache(
+        context.fileCache as FileCache,
+        restrictedChange,
+      )
+    }
+    const utilities = context.utilities as PStringContext | undefined
+    if (utilities?.fileCache) {
+      context.utilities = {
+        ...utilities,
+        fileCache: readOnlyFileCache(
+          utilities.fileCache as FileCache,
+          restrictedChange,
+        ),
+      }
+    }
+  }
   walk.simple(parsed, {
     Identifier({ name }) {
       if (!(name in context) && !(name in globalThis)) context[name] = undefined
@@ -328,5 +435,275 @@ export const pString: (
   Object.defineProperty(fn, "name", {
     value: "pString anonymous function",
   })
-  return fn(...values)
+  if (!timeoutMs) return fn(...values)
+  const tookTooLong = () =>
+    new RenderBudgetQueryError(
+      504,
+      `Query '${pArgList}' took longer than ${timeoutMs}ms`,
+      [],
+    )
+  // Until its first await, the query runs without a chance for any timer to
+  // fire, so have vm interrupt it, e.g. for `while (true) {}`
+  let running: Promise<unknown>
+  try {
+    running = runWithinContext(() => fn(...values), timeoutMs)
+  } catch (error) {
+    // Made in the context, so not an instance of this realm's Error
+    if (
+      typeof error === "object" &&
+      error !== null &&
+      "code" in error &&
+      error.code === "ERR_SCRIPT_EXECUTION_TIMEOUT"
+    ) {
+      throw tookTooLong()
+    }
+    throw error
+  }
+  // After that, the query keeps running past the timeout, there's no stopping
+  // it, but at least the request can finish. Though a query stuck the same way
+  // after awaiting something still holds up everything
+  let timeout: ReturnType<typeof setTimeout> | undefined
+  return Promise.race([
+    running,
+    new Promise((_resolve, reject) => {
+      timeout = setTimeout(() => reject(tookTooLong()), timeoutMs)
+    }),
+  ]).finally(() => clearTimeout(timeout))
+}
+
+// One context for every query, it only passes the call through
+const runScript = new Script("run()")
+const runContext = createContext({ run: undefined })
+const runWithinContext = (run: () => Promise<unknown>, timeoutMs: number) => {
+  runContext.run = run
+  return runScript.runInContext(runContext, {
+    timeout: timeoutMs,
+  }) as Promise<unknown>
+}
+
+// Globals which can't reach anything outside of the query
+const restrictedQueryGlobals = new Set([
+  "undefined",
+  "NaN",
+  "Infinity",
+  "Math",
+  "JSON",
+  "Number",
+  "String",
+  "Boolean",
+  "Array",
+  "Date",
+  "RegExp",
+  "Map",
+  "Set",
+  "Promise",
+  "Intl",
+  "parseInt",
+  "parseFloat",
+  "isNaN",
+  "isFinite",
+  "encodeURI",
+  "encodeURIComponent",
+  "decodeURI",
+  "decodeURIComponent",
+])
+const restrictedObject = Object.freeze({
+  keys: Object.keys,
+  values: Object.values,
+  entries: Object.entries,
+  fromEntries: Object.fromEntries,
+})
+// Never allowed, even when given as parameters
+const restrictedQueryIdentifiers = new Set([
+  "process",
+  "require",
+  "module",
+  "globalThis",
+  "global",
+  "eval",
+  "Function",
+  "arguments",
+])
+// Properties which lead to constructors, and through them to `Function`
+const restrictedQueryProperties = new Set([
+  "constructor",
+  "__proto__",
+  "prototype",
+  "__defineGetter__",
+  "__defineSetter__",
+  "__lookupGetter__",
+  "__lookupSetter__",
+])
+const restrictedQueryNodeTypes = new Set([
+  "ImportExpression",
+  "MetaProperty",
+  "ThisExpression",
+  "Super",
+  "WithStatement",
+])
+
+// Throws if the query might reach anything other than its context and the
+// harmless globals above, e.g. `process`, `import()`, or `globalThis`
+const assertRestricted = (parsed: acorn.Node, context: PStringContext) => {
+  const reject = (node: acorn.Node, reason: string) => {
+    throw new UsageError(
+      `Not allowed in restricted queries, ${reason} at position ${node.start}`,
+    )
+  }
+  const propertyName = (node: {
+    computed: boolean
+    key?: acorn.Node
+    property?: acorn.Node
+  }) => {
+    const key = (node.key ?? node.property) as acorn.Node & {
+      name?: string
+      value?: unknown
+    }
+    if (!node.computed && key.type === "Identifier") return key.name
+    if (key.type === "Literal") return String(key.value)
+    return undefined
+  }
+
+  // Every node, including property keys and patterns, which the walker skips
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) return node.forEach(visit)
+    if (!node || typeof node !== "object") return
+    if ("type" in node && typeof node.type === "string") {
+      const astNode = node as acorn.Node & { computed?: boolean }
+      if (restrictedQueryNodeTypes.has(astNode.type)) {
+        reject(astNode, astNode.type)
+      }
+      if (astNode.type === "MemberExpression" || astNode.type === "Property") {
+        const name = propertyName(astNode as { computed: boolean })
+        if (name === undefined) {
+          reject(astNode, "a computed property")
+        } else if (restrictedQueryProperties.has(name)) {
+          reject(astNode, `property '${name}'`)
+        }
+      }
+    }
+    Object.values(node).forEach(visit)
+  }
+  visit(parsed)
+
+  // Only names declared by the query where they're used count, a parameter
+  // named like a global elsewhere in the query doesn't hide that global here
+  const isDeclared = (name: string, ancestors: Array<acorn.Node>) =>
+    ancestors.some((ancestor) => declaredBy(ancestor).has(name))
+  walk.ancestor(parsed, {
+    // Identifiers being declared or assigned to
+    VariablePattern(
+      node: acorn.Node,
+      _state: unknown,
+      ancestors: Array<acorn.Node>,
+    ) {
+      const { name } = node as acorn.Identifier
+      if (restrictedQueryIdentifiers.has(name)) {
+        reject(node, `'${name}'`)
+      } else if (!isDeclared(name, ancestors) && !(name in context)) {
+        reject(node, `assigning to undeclared '${name}'`)
+      }
+    },
+    Identifier(node, _state, ancestors) {
+      const { name } = node
+      if (restrictedQueryIdentifiers.has(name)) {
+        reject(node, `'${name}'`)
+      } else if (
+        !isDeclared(name, ancestors) &&
+        !(name in context) &&
+        name in globalThis &&
+        !restrictedQueryGlobals.has(name)
+      ) {
+        reject(node, `global '${name}'`)
+      }
+    },
+    // The walker visits this, but its types don't know about it
+  } as walk.AncestorVisitors<unknown>)
+}
+
+// The names a function, block or the like declares for the code inside it.
+// Stricter than JavaScript, `var` is only seen in its own block
+const declaredBy = (node: acorn.Node): Set<string> => {
+  const names = new Set<string>()
+  const declare = (pattern: acorn.Node | null | undefined): void => {
+    if (!pattern) return
+    const node = pattern as acorn.Pattern
+    switch (node.type) {
+      case "Identifier":
+        names.add(node.name)
+        break
+      case "ObjectPattern":
+        node.properties.forEach((property) =>
+          declare(property.type === "Property" ? property.value : property),
+        )
+        break
+      case "ArrayPattern":
+        node.elements.forEach(declare)
+        break
+      case "RestElement":
+        declare(node.argument)
+        break
+      case "AssignmentPattern":
+        declare(node.left)
+        break
+    }
+  }
+  const declareStatements = (statements: Array<acorn.Node>) => {
+    for (const statement of statements) {
+      if (statement.type === "VariableDeclaration") {
+        for (const { id } of (statement as acorn.VariableDeclaration)
+          .declarations) {
+          declare(id)
+        }
+      } else if (
+        statement.type === "FunctionDeclaration" ||
+        statement.type === "ClassDeclaration"
+      ) {
+        declare((statement as acorn.FunctionDeclaration).id)
+      }
+    }
+  }
+  switch (node.type) {
+    case "FunctionDeclaration":
+    case "FunctionExpression":
+    case "ArrowFunctionExpression": {
+      const fn = node as acorn.Function
+      fn.params.forEach(declare)
+      declare(fn.id)
+      break
+    }
+    case "ClassExpression":
+      declare((node as acorn.ClassExpression).id)
+      break
+    case "Program":
+    case "BlockStatement":
+    case "StaticBlock":
+      declareStatements((node as acorn.BlockStatement).body)
+      break
+    case "SwitchStatement":
+      for (const { consequent } of (node as acorn.SwitchStatement).cases) {
+        declareStatements(consequent)
+      }
+      break
+    case "CatchClause":
+      declare((node as acorn.CatchClause).param)
+      break
+    case "ForStatement":
+      declareStatements(
+        [(node as acorn.ForStatement).init].filter(
+          (init): init is acorn.VariableDeclaration =>
+            init?.type === "VariableDeclaration",
+        ),
+      )
+      break
+    case "ForInStatement":
+    case "ForOfStatement":
+      declareStatements([(node as acorn.ForInStatement).left])
+      break
+  }
+  return names
 }
+
+// Restricted queries may look at files but not change them
+const restrictedChange = (change: string) =>
+  new UsageError(`Not allowed in restricted queries, fileCache.${change}`)
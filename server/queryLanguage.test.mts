@@ -10,6 +10,10 @@ import {
 import { parse } from "node-html-parser"
 import { configuredFiles } from "./configuration.mts"
 import { buildCache } from "./fileCache.mts"
+import { RenderBudgetQueryError } from "./error.mts"
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
 
 const o = { concurrency: true }
 const fileCache = await buildCache({
@@ -398,3 +402,147 @@ test(
 test("in pString, can await a top-level function", o, async () => {
   assert.equal(await pString("await fn()", { fn: async () => 3 }), 3)
 })
+
+test("Restricted pString only reaches its context", o, async () => {
+  const context = buildMyServerPStringContext({
+    parameters: { name: "World" },
+    fileCache,
+  })
+  const restricted = { restricted: true }
+  assert.equal(
+    await pString("`Hello ${name}`,s=>s.toUpperCase()", context, restricted),
+    "HELLO WORLD",
+  )
+  assert.equal(
+    await pString(
+      "[1,2].map((n) => { const doubled = n * 2; return doubled }).join()",
+      context,
+      restricted,
+    ),
+    "2,4",
+  )
+  assert.equal(
+    await pString(
+      "[1,2].map((n) => { for (const m of [n]) { let x = m; { x *= 3 } return x } }).join()",
+      context,
+      restricted,
+    ),
+    "3,6",
+  )
+  assert.equal(
+    await pString(
+      "fileCache.getByContentPath('/index.html').name",
+      context,
+      restricted,
+    ),
+    "index.html",
+  )
+  assert.equal(await pString("notGiven", context, restricted), undefined)
+  assert.equal(
+    await pString(
+      "fileCache.withoutPrivate().getByContentPath('/index.html').name",
+      context,
+      restricted,
+    ),
+    "index.html",
+  )
+
+  for (const query of [
+    "process.exit()",
+    "globalThis.process",
+    "import('node:fs')",
+    "(function () { return new.target })()",
+    "this",
+    "Reflect.get(or, 'constructor')",
+    "or.constructor",
+    "or['constr' + 'uctor']",
+    "(({ constructor }) => constructor)(or)",
+    "JSON = undefined",
+    "setTimeout(() => {})",
+    "fileCache.removeFile({ contentPath: '/index.html' })",
+    "utilities.fileCache.updateFile",
+    // Declaring a global's name in one place doesn't make it fine everywhere
+    '(Reflect) => 0, () => Reflect.get(() => 0, "con" + "structor")("return process.version")()',
+    "(function (Reflect) {}), Reflect",
+    "(() => { const Function = 1 }), Function",
+    "fileCache.withoutPrivate().updateFile",
+    "utilities.fileCache.auditedAs({ username: 'someone' }).removeFile",
+  ]) {
+    await assert.rejects(
+      pString(query, context, restricted),
+      /Not allowed in restricted queries/,
+      query,
+    )
+  }
+  // Only the harmless parts of Object
+  assert.deepEqual(
+    await pString("Object.entries({ a: 1 })", context, restricted),
+    [["a", 1]],
+  )
+  await assert.rejects(
+    pString("Object.getOwnPropertyDescriptor(or, 'name')", context, restricted),
+    TypeError,
+  )
+  // But all of that is fine without restrictions
+  assert.equal(await pString("this === globalThis", context), true)
+})
+
+test("pString gives up on queries which take too long", o, async () => {
+  await assert.rejects(
+    pString("new Promise(() => {})", {}, { timeoutMs: 10 }),
+    (error: unknown) =>
+      error instanceof RenderBudgetQueryError &&
+      error.status === 504 &&
+      /took longer than 10ms/.test(error.message),
+  )
+  assert.equal(await pString("await wait(1), 3", { wait }, { timeoutMs: 0 }), 3)
+  // Even when it never lets a timer fire
+  await assert.rejects(
+    pString("(() => { while (true) {} })()", {}, { timeoutMs: 10 }),
+    (error: unknown) =>
+      error instanceof RenderBudgetQueryError && error.status === 504,
+  )
+})
+
+test("render() refuses pages which render themselves", o, async () => {
+  const directory = await mkdtemp(join(tmpdir(), "html-wiki-render-budget-"))
+  try {
+    await writeFile(
+      join(directory, "loop.html"),
+      `<query-content q="render('/other.html')"></query-content>`,
+    )
+    await writeFile(
+      join(directory, "other.html"),
+      `<query-content q="render('/loop.html')"></query-content>`,
+    )
+    await writeFile(
+      join(directory, "deep.html"),
+      `<query-content q="depth < 100 ? render('/deep.html', { depth: depth + 1 }) : 'bottom'"></query-content>`,
+    )
+    const fileCache = await buildCache({ searchDirectories: [directory] })
+    const context = buildMyServerPStringContext({ parameters: {}, fileCache })
+
+    await assert.rejects(
+      pString("render('/loop.html')", context),
+      (error: unknown) =>
+        error instanceof RenderBudgetQueryError &&
+        error.status === 508 &&
+        error.message.includes("/loop.html -> /other.html -> /loop.html"),
+    )
+    // Rendering the same page is fine as long as something changes, up to a
+    // point
+    await assert.rejects(
+      pString("render('/deep.html', { depth: 0 })", context),
+      (error: unknown) =>
+        error instanceof RenderBudgetQueryError &&
+        /more than 32 pages deep/.test(error.message) &&
+        error.renderChain.length === 33,
+    )
+    assert.match(
+      (await pString("render('/deep.html', { depth: 90 })", context)) as string,
+      /bottom/,
+    )
+  } finally {
+    await rm(directory, { recursive: true })
+  }
+})
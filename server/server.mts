@@ -8,11 +8,20 @@ import express from "express"
 import EventEmitter from "node:events"
 import multer from "multer"
 import { expressQueryToRecord, staticContentTypes } from "./serverUtilities.mts"
-import { MissingFileQueryError, QueryError } from "./error.mts"
+import {
+  AnswerError,
+  ConflictQueryError,
+  ForbiddenQueryError,
+  MissingFileQueryError,
+  QueryError,
+  ReadonlyQueryError,
+  UnauthorizedQueryError,
+} from "./error.mts"
 import {
   execute,
   maybeAtLeastEmptyStringParameterValue,
   maybeStringParameterValue,
+  mutatingCommands,
   narrowStringToCommand,
   setEachParameterWithSource,
   setParameterWithSource,
@@ -21,19 +30,52 @@ import {
   type ParameterValue,
 } from "./engine.mts"
 import debug from "debug"
-import { configuredFiles } from "./configuration.mts"
-import { type FileCache } from "./fileCache.mts"
+import { configuredFiles, settings } from "./configuration.mts"
+import { type FileCache, readOnlyFileCache } from "./fileCache.mts"
 import { contentType } from "mime-types"
+import { cleanFilePath } from "./filesystem.mts"
+import { storeSharedFiles } from "./sharedFiles.mts"
+import { createRenderTrace } from "./trace.mts"
+import {
+  assertCsrfToken,
+  createAuthentication,
+  csrfTokenFor,
+} from "./authentication.mts"
 import { randomUUID } from "node:crypto"
+import { basename } from "node:path"
 const log = debug("server:server")
-const upload = multer()
+
+// Set only by the server and the renderer, which expect what they set, so a
+// request giving them could break any page
+const serverParameterNames = [
+  "renderTrace",
+  "layoutChain",
+  "originalParameters",
+  "sharedFiles",
+]
+const withoutServerParameters = (record: Record<string, unknown>) =>
+  Object.fromEntries(
+    Object.entries(record).filter(
+      ([key]) => !serverParameterNames.includes(key),
+    ),
+  )
 
 export const createServer = async ({
   port,
-  fileCache,
+  fileCache: wikiFileCache,
+  userStorePath,
+  devMode = false,
+  trustProxy,
 }: {
   port: number
   fileCache: FileCache
+  // Without one, anyone can edit
+  userStorePath?: string
+  // Show everyone the details of errors, which may reveal too much
+  devMode?: boolean
+  // Behind a proxy, which of them to believe about where requests came from,
+  // as Express's "trust proxy" setting takes it
+  trustProxy?: boolean | number | string
 }) => {
   // Create an event emitter to handle cross-cutting communications
   const emitter = new EventEmitter()
@@ -43,10 +85,64 @@ export const createServer = async ({
   emitter.setMaxListeners(100)
 
   const app = express()
+  // Otherwise every request, e.g. in the audit log, is from the proxy
+  if (trustProxy !== undefined) app.set("trust proxy", trustProxy)
   const baseURL = `localhost:${port}`
 
+  const authentication = await createAuthentication({ userStorePath })
+
+  // Set by the server for every request, so they can't be spoofed by queries
+  const sessionParameters = (req: express.Request, res: express.Response) => {
+    const session = authentication.getSession(req)
+    return {
+      username: session.username,
+      canEdit: authentication.canEdit(session),
+      authenticationEnabled: authentication.enabled,
+      // For the audit log
+      clientAddress: req.ip,
+      // For forms to send back, see `assertCsrfToken`
+      csrfToken: csrfTokenFor(req, res),
+    }
+  }
+
+  // Private entries are as good as missing to those who can't edit, and
+  // nothing they render, e.g. with the query playground, can change a thing
+  const readerFileCache = readOnlyFileCache(
+    wikiFileCache.withoutPrivate(),
+    () => new UnauthorizedQueryError("Log in to make changes"),
+  )
+  const fileCacheFor = (parameters: ParameterValue) =>
+    parameters.canEdit === true ? wikiFileCache : readerFileCache
+
   app.use(express.urlencoded({ extended: true }))
-  app.use(upload.none())
+  const upload = multer({
+    limits: {
+      fileSize: settings.maxUploadBytes,
+      files: settings.maxUploadFiles,
+    },
+  })
+  // Files are only taken where they're expected, and from those who could
+  // store them, so nobody else can have them held in memory
+  app.use((req, res, next) => {
+    const wantsFiles =
+      req.query.upload !== undefined ||
+      req.path === configuredFiles.sharedContentReceiver
+    const mayStoreFiles = authentication.canEdit(authentication.getSession(req))
+    const parseForm = wantsFiles && mayStoreFiles ? upload.any() : upload.none()
+    parseForm(req, res, (error?: unknown) => {
+      if (!(error instanceof multer.MulterError)) return next(error)
+      if (wantsFiles && error.code === "LIMIT_UNEXPECTED_FILE") {
+        return next(new UnauthorizedQueryError("Log in to upload files"))
+      }
+      next(
+        new QueryError(
+          error.code === "LIMIT_FILE_SIZE" ? 413 : 400,
+          error.message,
+          error,
+        ),
+      )
+    })
+  })
 
   app.use("/", async (req, res, _next) => {
     // Silly chrome dev tools stuff is noisy
@@ -54,8 +150,56 @@ export const createServer = async ({
     // Req.query is immutable
     let query = expressQueryToRecord(req.query)
     const parameters: ParameterValue = {}
-    setEachParameterWithSource(parameters, query, "query param")
-    setEachParameterWithSource(parameters, req.body ?? {}, "request body")
+    // First, so that it sees every parameter after it. It shows them all, like
+    // error details, so only to editors
+    if (
+      query.trace !== undefined &&
+      (devMode || authentication.canEdit(authentication.getSession(req)))
+    ) {
+      setParameterWithSource(
+        parameters,
+        "renderTrace",
+        createRenderTrace(),
+        "derived",
+      )
+    }
+    setEachParameterWithSource(
+      parameters,
+      withoutServerParameters(query),
+      "query param",
+    )
+    setEachParameterWithSource(
+      parameters,
+      withoutServerParameters(req.body ?? {}),
+      "request body",
+    )
+
+    if (req.method === "POST" && query.login !== undefined) {
+      assertCsrfToken(req)
+      await authentication.logIn({
+        req,
+        res,
+        username: maybeStringParameterValue(parameters, "username") ?? "",
+        password: maybeStringParameterValue(parameters, "password") ?? "",
+      })
+      res.redirect(303, localRedirect(parameters))
+      return
+    } else if (req.method === "POST" && query.logout !== undefined) {
+      assertCsrfToken(req)
+      authentication.logOut({ req, res })
+      res.redirect(303, localRedirect(parameters))
+      return
+    }
+    setEachParameterWithSource(
+      parameters,
+      sessionParameters(req, res),
+      "session",
+    )
+    // Lenient rendering shows what went wrong, like error details
+    if (parameters.lenient !== undefined && !parameters.canEdit) {
+      setParameterWithSource(parameters, "lenient", undefined, "derived")
+    }
+    const fileCache = fileCacheFor(parameters)
 
     let command = narrowStringToCommand(query.command)
 
@@ -73,6 +217,37 @@ export const createServer = async ({
           command = "delete"
         } else if (query.create !== undefined) {
           command = "create"
+        } else if (query.move !== undefined) {
+          command = "move"
+        } else if (query.append !== undefined) {
+          command = "append"
+        } else if (query.patch !== undefined) {
+          command = "patch"
+        } else if (query.meta !== undefined) {
+          command = "meta"
+        } else if (query.upload !== undefined) {
+          // An uploaded file is created like any other, from its contents
+          command = "create"
+          const [file] = Array.isArray(req.files) ? req.files : []
+          if (!file) throw new QueryError(400, "No file was uploaded")
+          const directory = (
+            maybeStringParameterValue(parameters, "directory") ??
+            configuredFiles.defaultUploadDirectory
+          )
+            .split("/")
+            .filter(Boolean)
+            .map((part) => `/${part}`)
+            .join("")
+          const uploadedContentPath = `${directory}/${cleanFilePath(basename(file.originalname))}`
+          setEachParameterWithSource(
+            parameters,
+            {
+              contentPath: uploadedContentPath,
+              content: file.buffer,
+              redirect: `${configuredFiles.uploadedPageTemplate}?uploaded=${encodeURIComponent(uploadedContentPath)}`,
+            },
+            "request body",
+          )
         } else if (req.path === configuredFiles.sharedContentReceiver) {
           // TODO: I don't see any other way to match the specific
           // share content receiver for sure other than the exact path given
@@ -80,10 +255,31 @@ export const createServer = async ({
           // free for users to target particular entries.
           command = "read"
 
+          const files = Array.isArray(req.files) ? req.files : []
+          if (files.length > 0 && !parameters.canEdit) {
+            throw new UnauthorizedQueryError("Log in to share files")
+          }
+          // Sharing from another app can't send a token, but the browser
+          // marks it as coming from the person using it rather than a site
+          if (files.length > 0 && req.get("Sec-Fetch-Site") !== "none") {
+            assertCsrfToken(req)
+          }
           setEachParameterWithSource(
             parameters,
             {
               contentPathOrContentTitle: req.path,
+              sharedFiles: await storeSharedFiles({
+                files,
+                // Not a command `execute` knows, but it's how they got here
+                fileCache: fileCache.auditedAs({
+                  command: "share",
+                  clientAddress: maybeStringParameterValue(
+                    parameters,
+                    "clientAddress",
+                  ),
+                  username: maybeStringParameterValue(parameters, "username"),
+                }),
+              }),
             },
             "derived",
           )
@@ -93,6 +289,8 @@ export const createServer = async ({
         }
       } else if (req.method === "PUT") {
         command = "create"
+      } else if (req.method === "PATCH") {
+        command = "patch"
       } else if (req.method === "DELETE") {
         command = "delete"
         setParameterWithSource(parameters, "delete-confirm", "true", "derived")
@@ -107,6 +305,16 @@ export const createServer = async ({
 
     setParameterWithSource(parameters, "command", command, "derived")
 
+    if (
+      !parameters.canEdit &&
+      (mutatingCommands.includes(command) ||
+        maybeAtLeastEmptyStringParameterValue(parameters, "edit") ||
+        maybeAtLeastEmptyStringParameterValue(parameters, "move"))
+    ) {
+      throw new UnauthorizedQueryError("Log in to make changes")
+    }
+    if (mutatingCommands.includes(command)) assertCsrfToken(req)
+
     if (
       stringParameterValue(parameters, "command") == "read" &&
       maybeAtLeastEmptyStringParameterValue(parameters, "edit")
@@ -128,6 +336,17 @@ export const createServer = async ({
           },
           "derived",
         )
+      } else if (fileExistsResult && fileCache.isReadonly(fileExistsResult)) {
+        // Offer to remove the flag instead
+        res.status(403)
+        setEachParameterWithSource(
+          parameters,
+          {
+            target: fileExistsResult.contentPath,
+            contentPath: configuredFiles.readonlyPageTemplate,
+          },
+          "derived",
+        )
       } else if (fileExistsResult) {
         setEachParameterWithSource(
           parameters,
@@ -140,6 +359,55 @@ export const createServer = async ({
       } else {
         throw new MissingFileQueryError(target)
       }
+    } else if (
+      stringParameterValue(parameters, "command") == "read" &&
+      maybeAtLeastEmptyStringParameterValue(parameters, "move")
+    ) {
+      const target =
+        maybeStringParameterValue(parameters, "contentPathOrContentTitle") ||
+        req.path
+      const fileExistsResult = fileCache.getByContentPathOrContentTitle(target)
+      if (fileExistsResult && fileCache.isCoreFile(fileExistsResult)) {
+        throw new Error(`Can't move core file ${fileExistsResult.contentPath}`)
+      } else if (fileExistsResult && fileCache.isReadonly(fileExistsResult)) {
+        throw new ReadonlyQueryError(fileExistsResult.contentPath)
+      } else if (fileExistsResult) {
+        setEachParameterWithSource(
+          parameters,
+          {
+            target: fileExistsResult.contentPath,
+            contentPath: configuredFiles.movePageTemplate,
+          },
+          "derived",
+        )
+      } else {
+        throw new MissingFileQueryError(target)
+      }
+    } else if (
+      stringParameterValue(parameters, "command") == "read" &&
+      maybeAtLeastEmptyStringParameterValue(parameters, "history")
+    ) {
+      const target =
+        maybeStringParameterValue(parameters, "contentPathOrContentTitle") ||
+        req.path
+      const fileExistsResult = fileCache.getByContentPathOrContentTitle(target)
+      // Deleted files no longer exist, but still have a history
+      const targetContentPath =
+        fileExistsResult?.contentPath ?? decodeURIComponent(target)
+      if (
+        !fileExistsResult &&
+        (await fileCache.getRevisions(targetContentPath)).length === 0
+      ) {
+        throw new MissingFileQueryError(target)
+      }
+      setEachParameterWithSource(
+        parameters,
+        {
+          target: targetContentPath,
+          contentPath: configuredFiles.historyPageTemplate,
+        },
+        "derived",
+      )
     } else if (
       stringParameterValue(parameters, "command") == "delete" &&
       !maybeAtLeastEmptyStringParameterValue(parameters, "delete-confirm")
@@ -156,6 +424,8 @@ export const createServer = async ({
         throw new Error(
           `Can't delete core file ${fileExistsResult.contentPath}`,
         )
+      } else if (fileExistsResult && fileCache.isReadonly(fileExistsResult)) {
+        throw new ReadonlyQueryError(fileExistsResult.contentPath)
       } else if (fileExistsResult) {
         setEachParameterWithSource(
           parameters,
@@ -171,7 +441,7 @@ export const createServer = async ({
     }
 
     if (
-      (command == "update" || command == "create" || command == "delete") &&
+      mutatingCommands.includes(command) &&
       !maybeStringParameterValue(parameters, "contentPathOrContentTitle")
     ) {
       setParameterWithSource(
@@ -219,11 +489,7 @@ export const createServer = async ({
       // because we might have already set it (e.g. delete w/o confirm above)
       if (result.status !== Status.OK) res.status(result.status)
       res.send(result.content)
-    } else if (
-      command == "update" ||
-      command == "create" ||
-      command === "delete"
-    ) {
+    } else if (mutatingCommands.includes(command)) {
       const toWhere =
         maybeStringParameterValue(parameters, "redirect") !== undefined
           ? stringParameterValue(parameters, "redirect")
@@ -231,7 +497,10 @@ export const createServer = async ({
             ? "/"
             : result.contentPath || "/"
       const params = result.content ? `statusMessage=${result.content}` : ""
+      // 303 so that the redirect is followed with a GET, even after a PATCH
+      // or DELETE which would otherwise be repeated at the new location
       res.redirect(
+        303,
         `${toWhere}${toWhere.indexOf("?") === -1 ? "?" : "&"}${params}`,
       )
     } else {
@@ -259,26 +528,58 @@ export const createServer = async ({
       command: "read",
       originalPath: decodeURIComponent(req.path),
     }
+    setEachParameterWithSource(
+      parameters,
+      sessionParameters(req, res),
+      "session",
+    )
+    // Error details may reveal secrets, so only show them to editors
+    const showErrorDetails = devMode || parameters.canEdit === true
 
     if (error instanceof QueryError) {
       res.status(error.status)
-      parameters.originalError = error.originalError
+      if (showErrorDetails) parameters.originalError = error.originalError
       parameters.statusCode = error.status
       if (error instanceof MissingFileQueryError) {
         log(`404: While processing request '${req.path}', ${error.message}`)
         parameters.missingPath = error.missingPath
         parameters.contentPath = configuredFiles.fileMissingPageTemplate
+      } else if (error instanceof UnauthorizedQueryError) {
+        log(`401: While processing request '${req.path}', ${error.message}`)
+        parameters.loginMessage = error.message
+        // Come back to the page after logging in, but not to a form submission
+        parameters.redirect = req.method === "GET" ? req.originalUrl : req.path
+        parameters.contentPath = configuredFiles.loginPage
+      } else if (error instanceof ForbiddenQueryError) {
+        log(`403: While processing request '${req.path}', ${error.message}`)
+        parameters.errorUuid = randomUUID()
+        parameters.contentPath = configuredFiles.unknownErrorOccurredTemplate
+        // Says what to do about it, and doesn't reveal anything
+        parameters.errorMessage = error.message
+      } else if (error instanceof ConflictQueryError) {
+        log(`409: While processing request '${req.path}', ${error.message}`)
+        parameters.target = error.contentPath
+        parameters.submittedContent = error.submittedContent
+        parameters.contentPath = configuredFiles.conflictPageTemplate
       } else {
         log(`QueryError on ${req.path}:`, error)
         parameters.errorUuid = randomUUID()
         parameters.contentPath = configuredFiles.unknownErrorOccurredTemplate
-        parameters.errorMessage = error.message
+        if (showErrorDetails) {
+          parameters.errorMessage = error.message
+          if (error instanceof AnswerError) {
+            parameters.failingQuery = error.failingQuery
+            parameters.failingFilePath = error.filePath
+            parameters.failingFileLocation = error.fileLocation
+          }
+        }
       }
     } else {
       log("5XX", { err: error })
       parameters.errorUuid = randomUUID()
       parameters.contentPath = configuredFiles.unknownErrorOccurredTemplate
       parameters.statusCode = 500
+      if (showErrorDetails) parameters.errorMessage = String(error)
       res.status(500)
     }
 
@@ -286,7 +587,7 @@ export const createServer = async ({
     try {
       const result = await execute({
         parameters,
-        fileCache,
+        fileCache: fileCacheFor(parameters),
       })
       res.send(result.content)
     } catch (executeErrorPageError) {
@@ -315,3 +616,9 @@ export const createServer = async ({
   })
   return { cleanup: () => emitter.emit("cleanup") }
 }
+
+// Only redirect within the wiki, e.g. not to `//elsewhere.example`
+const localRedirect = (parameters: ParameterValue) => {
+  const redirect = maybeStringParameterValue(parameters, "redirect")
+  return redirect && /^\/(?![/\\])/.test(redirect) ? redirect : "/"
+}
@@ -0,0 +1,150 @@
+/**
+ * Files shared to the wiki through the web app share target, see
+ * site.webmanifest
+ */
+import { basename } from "node:path"
+import debug from "debug"
+import { type FileCache } from "./fileCache.mts"
+import { cleanFilePath } from "./filesystem.mts"
+import { escapeHtml, html } from "./utilities.mts"
+import { configuredFiles } from "./configuration.mts"
+const log = debug("server:sharedFiles")
+
+export type SharedFile = {
+  name: string
+  // Where the shared file itself was stored
+  contentPath: string
+  // An entry generated to show the shared file, e.g. a table from a CSV
+  generatedContentPath?: string
+}
+
+// Store each shared file as an asset, never overwriting an existing one
+export const storeSharedFiles = async ({
+  files,
+  fileCache,
+}: {
+  files: Array<{ originalname: string; buffer: Buffer }>
+  fileCache: FileCache
+}): Promise<Array<SharedFile>> => {
+  const sharedFiles: Array<SharedFile> = []
+  for (const file of files) {
+    const name = cleanFilePath(basename(file.originalname))
+    const contentPath = availableContentPath(
+      `${configuredFiles.sharedFilesDirectory}/${name}`,
+      fileCache,
+    )
+    log(`Storing shared file ${contentPath}`)
+    await fileCache.createFileAndDirectories({
+      contentPath,
+      content: file.buffer,
+    })
+    const sharedFile: SharedFile = { name, contentPath }
+    if (/\.csv$/i.test(name)) {
+      sharedFile.generatedContentPath = availableContentPath(
+        contentPath.replace(/\.csv$/i, ".html"),
+        fileCache,
+      )
+      await fileCache.createFileAndDirectories({
+        contentPath: sharedFile.generatedContentPath,
+        content: csvTableEntry({
+          title: name,
+          csvContentPath: contentPath,
+          csv: file.buffer.toString(),
+        }),
+      })
+    }
+    sharedFiles.push(sharedFile)
+  }
+  return sharedFiles
+}
+
+// Sharing the same file twice shouldn't fail, so number the later ones
+const availableContentPath = (contentPath: string, fileCache: FileCache) => {
+  const [, stem, extension] = contentPath.match(/^(.*?)(\.[^./]*)?$/)!
+  let available = contentPath
+  for (let n = 2; fileCache.getByContentPath(available); n++) {
+    available = `${stem}-${n}${extension ?? ""}`
+  }
+  return available
+}
+
+// Rows of fields, following RFC 4180 (quoted fields may contain commas,
+// newlines, and doubled quotes) but forgiving of stray quotes
+export const parseCsv = (csv: string): Array<Array<string>> => {
+  const rows: Array<Array<string>> = []
+  let row: Array<string> = []
+  let field = ""
+  let quoted = false
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i]
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && csv[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+// An HTML entry showing a CSV as a table, with its first row as the header
+export const csvTableEntry = ({
+  title,
+  csvContentPath,
+  csv,
+}: {
+  title: string
+  csvContentPath: string
+  csv: string
+}) => {
+  const [header = [], ...rows] = parseCsv(csv)
+  const cells = (tag: string, row: Array<string>) =>
+    row.map((cell) => `<${tag}>${escapeHtml(cell)}</${tag}>`).join("")
+  return html`<!doctype html>
+    <html lang="en-US">
+      <head>
+        <meta charset="utf-8" />
+        <title>${escapeHtml(title)}</title>
+      </head>
+      <body>
+        <h1>${escapeHtml(title)}</h1>
+        <p>
+          Shared as
+          <a href="${encodeURI(csvContentPath)}"
+            >${escapeHtml(csvContentPath)}</a
+          >
+        </p>
+        <table>
+          <thead>
+            <tr>
+              ${cells("th", header)}
+            </tr>
+          </thead>
+          <tbody>
+            ${rows.map((row) => `<tr>${cells("td", row)}</tr>`).join("\n")}
+          </tbody>
+        </table>
+      </body>
+    </html>`
+}
@@ -0,0 +1,39 @@
+import test from "node:test"
+import assert from "node:assert"
+import { parse } from "node-html-parser"
+import { csvTableEntry, parseCsv } from "./sharedFiles.mts"
+
+const o = { concurrency: true }
+
+test("parseCsv handles quoted fields", o, () => {
+  assert.deepEqual(
+    parseCsv('name,notes\r\nmilk,"2, maybe 3"\n"eggs","a ""dozen""\nor so"\n'),
+    [
+      ["name", "notes"],
+      ["milk", "2, maybe 3"],
+      ["eggs", 'a "dozen"\nor so'],
+    ],
+  )
+  assert.deepEqual(parseCsv("a,b"), [["a", "b"]])
+  assert.deepEqual(parseCsv(""), [])
+})
+
+test("csvTableEntry makes a table with a header row", o, () => {
+  const dom = parse(
+    csvTableEntry({
+      title: "list.csv",
+      csvContentPath: "/assets/shared/list.csv",
+      csv: "item,count\n<b>milk</b>,2\n",
+    }),
+  )
+  assert.equal(dom.querySelector("title")!.innerText, "list.csv")
+  assert.deepEqual(
+    dom.querySelectorAll("th").map((th) => th.innerText),
+    ["item", "count"],
+  )
+  assert.deepEqual(
+    dom.querySelectorAll("td").map((td) => td.innerHTML),
+    ["&lt;b&gt;milk&lt;/b&gt;", "2"],
+  )
+  assert.ok(dom.querySelector('a[href="/assets/shared/list.csv"]'))
+})
@@ -0,0 +1,133 @@
+/**
+ * A record of how a page rendered, for `?trace`. Every parameter written and
+ * where it came from, every query evaluated and every template tag expanded,
+ * in order, so the global page can show why a page came out the way it did.
+ *
+ * The trace rides along in the parameters as `renderTrace`. Pages rendered
+ * from inside other pages find it through `originalParameters`.
+ */
+import type { ParameterSources, ParameterValue } from "./engine.mts"
+
+// Which template, and where in it. Without a content path, it's the server
+export type TraceLocation = {
+  contentPath?: string
+  line?: number
+}
+
+export type TraceEvent = TraceLocation &
+  (
+    | {
+        kind: "parameter"
+        key: string
+        value: string
+        source: ParameterSources
+      }
+    | {
+        kind: "query"
+        query: string
+        resultType: string
+        durationMs: number
+      }
+    | {
+        kind: "tag"
+        tagName: string
+      }
+  )
+
+// One event, ready to be shown in a table
+export type TraceRow = {
+  kind: TraceEvent["kind"]
+  where: string
+  what: string
+  detail: string
+}
+
+export type RenderTrace = ReturnType<typeof createRenderTrace>
+
+const renderTraceBrand = Symbol("renderTrace")
+
+export const createRenderTrace = () => {
+  const events: Array<TraceEvent> = []
+  return {
+    [renderTraceBrand]: true,
+    events,
+    record: (event: TraceEvent) => {
+      events.push(event)
+    },
+    rows: (): Array<TraceRow> => events.map(traceRow),
+    // Otherwise logging the parameters logs every event
+    toJSON: () => `RenderTrace(${events.length} events)`,
+  }
+}
+
+export const isRenderTrace = (value: unknown): value is RenderTrace =>
+  typeof value === "object" && value !== null && renderTraceBrand in value
+
+// The trace of the page being rendered, if it's being traced
+export const traceOf = (
+  parameters: ParameterValue,
+): RenderTrace | undefined => {
+  if (isRenderTrace(parameters.renderTrace)) return parameters.renderTrace
+  const { originalParameters } = parameters
+  if (
+    typeof originalParameters === "object" &&
+    originalParameters !== null &&
+    originalParameters !== parameters
+  ) {
+    return traceOf(originalParameters as ParameterValue)
+  }
+  return undefined
+}
+
+// Short enough for one cell of a table
+export const summarizeValue = (value: unknown): string => {
+  if (typeof value === "string") {
+    const quoted = JSON.stringify(value)
+    return quoted.length > 60 ? `${quoted.slice(0, 59)}…"` : quoted
+  }
+  if (Array.isArray(value)) return `Array(${value.length})`
+  if (isRenderTrace(value)) return "RenderTrace"
+  if (typeof value === "function") return "function"
+  if (typeof value === "object" && value !== null) {
+    return value.constructor?.name ?? "Object"
+  }
+  return String(value)
+}
+
+export const resultTypeOf = (value: unknown): string => {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  return typeof value
+}
+
+const traceRow = (event: TraceEvent): TraceRow => {
+  const where =
+    event.contentPath === undefined
+      ? "server"
+      : event.line === undefined
+        ? event.contentPath
+        : `${event.contentPath}:${event.line}`
+  switch (event.kind) {
+    case "parameter":
+      return {
+        kind: event.kind,
+        where,
+        what: event.key,
+        detail: `${event.value} (${event.source})`,
+      }
+    case "query":
+      return {
+        kind: event.kind,
+        where,
+        what: event.query,
+        detail: `${event.resultType} in ${event.durationMs.toFixed(1)}ms`,
+      }
+    case "tag":
+      return {
+        kind: event.kind,
+        where,
+        what: `<${event.tagName.toLowerCase()}>`,
+        detail: "",
+      }
+  }
+}
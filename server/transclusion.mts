@@ -0,0 +1,93 @@
+/**
+ * Embedding one entry, or part of it, in another. In HTML,
+ * `<transclude- src="Some Title#Heading">` embeds the section under that
+ * heading of the entry with that content path or title, and `select="..."`
+ * embeds the element matching a selector instead. In Markdown, a line with only
+ * `![[Some Title#Heading]]` does the same.
+ */
+import { parse as parseHtml, HTMLElement } from "node-html-parser"
+import { UsageError } from "./error.mts"
+import { escapeHtml } from "./utilities.mts"
+
+export type TransclusionSource = {
+  contentPathOrContentTitle: string
+  // Without the #
+  heading?: string
+}
+
+export const parseTransclusionSource = (src: string): TransclusionSource => {
+  const hashIndex = src.indexOf("#")
+  if (hashIndex === -1) return { contentPathOrContentTitle: src.trim() }
+  return {
+    contentPathOrContentTitle: src.slice(0, hashIndex).trim(),
+    heading: src.slice(hashIndex + 1).trim() || undefined,
+  }
+}
+
+const markdownTransclusion = /^!\[\[([^\]]+)\]\][ \t]*$/gm
+
+// Before Markdown is rendered, so the element is left for `applyTemplating`.
+// The blank line after ends the HTML block
+export const markdownTransclusionsToHtml = (content: string) =>
+  content.replaceAll(
+    markdownTransclusion,
+    (_, src: string) =>
+      `<transclude- src="${escapeHtml(src)}">\n</transclude->\n`,
+  )
+
+// The content paths or titles an entry transcludes, without any headings
+export const findTransclusions = (content: string): Array<string> => {
+  const sources = [
+    ...Array.from(content.matchAll(markdownTransclusion), ([_, src]) => src),
+    ...parseHtml(content)
+      .querySelectorAll("transclude-")
+      .map((element) => element.getAttribute("src") ?? ""),
+  ]
+  return [
+    ...new Set(
+      sources
+        .map((src) => parseTransclusionSource(src).contentPathOrContentTitle)
+        .filter(Boolean),
+    ),
+  ]
+}
+
+const headingLevel = (element: HTMLElement) => {
+  const match = element.tagName?.match(/^H([1-6])$/)
+  return match ? Number(match[1]) : undefined
+}
+
+/**
+ * The heading with that text or id, and everything after it up to the next
+ * heading at the same level or above
+ **/
+export const selectSection = (content: string, heading: string): string => {
+  const root = parseHtml(content)
+  const wanted = heading.toLowerCase()
+  const start = root
+    .querySelectorAll("h1, h2, h3, h4, h5, h6")
+    .find(
+      (element) =>
+        element.innerText.trim().toLowerCase() === wanted ||
+        element.id === heading,
+    )
+  if (!start) throw new UsageError(`No heading '${heading}' to transclude`)
+  const level = headingLevel(start)!
+  const siblings = start.parentNode.childNodes
+  const section = [start.toString()]
+  for (const sibling of siblings.slice(siblings.indexOf(start) + 1)) {
+    const siblingLevel =
+      sibling instanceof HTMLElement ? headingLevel(sibling) : undefined
+    if (siblingLevel !== undefined && siblingLevel <= level) break
+    section.push(sibling.toString())
+  }
+  return section.join("")
+}
+
+export const selectElement = (content: string, selector: string): string => {
+  const element = parseHtml(content).querySelector(selector)
+  if (!element) {
+    throw new UsageError(`No element matching '${selector}' to transclude`)
+  }
+  return element.toString()
+}
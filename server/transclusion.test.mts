@@ -0,0 +1,128 @@
+import test from "node:test"
+import assert from "node:assert"
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import {
+  findTransclusions,
+  markdownTransclusionsToHtml,
+  parseTransclusionSource,
+  selectSection,
+} from "./transclusion.mts"
+import { execute, setEachParameterWithSource } from "./engine.mts"
+import { buildCache } from "./fileCache.mts"
+import { RenderBudgetQueryError, UsageError } from "./error.mts"
+
+const o = { concurrency: true }
+
+test("Transclusion sources and where they're found", o, () => {
+  assert.deepEqual(parseTransclusionSource("Some Title#A Heading"), {
+    contentPathOrContentTitle: "Some Title",
+    heading: "A Heading",
+  })
+  assert.deepEqual(parseTransclusionSource("/a.md"), {
+    contentPathOrContentTitle: "/a.md",
+  })
+  assert.deepEqual(
+    findTransclusions(
+      [
+        "![[Some Title#A Heading]]",
+        "Not ![[inline]] though",
+        '<transclude- src="/a.html" select="p"></transclude->',
+        "![[Some Title]]",
+      ].join("\n"),
+    ),
+    ["Some Title", "/a.html"],
+  )
+  assert.equal(
+    markdownTransclusionsToHtml("Before\n\n![[A & B]]\n\nAfter"),
+    'Before\n\n<transclude- src="A &amp; B">\n</transclude->\n\n\nAfter',
+  )
+})
+
+test("A section is its heading up to the next at the same level", o, () => {
+  const content =
+    "<h1>Top</h1><h2>One</h2><p>1</p><h3>Deeper</h3><p>1.1</p><h2>Two</h2><p>2</p>"
+  assert.equal(
+    selectSection(content, "one"),
+    "<h2>One</h2><p>1</p><h3>Deeper</h3><p>1.1</p>",
+  )
+  assert.equal(selectSection(content, "Two"), "<h2>Two</h2><p>2</p>")
+  assert.throws(() => selectSection(content, "Three"), UsageError)
+})
+
+test("Entries transclude each other", o, async () => {
+  const directory = await mkdtemp(join(tmpdir(), "html-wiki-transclusion-"))
+  const files = {
+    "source.md":
+      "# Source\n\n## Intro\n\nIntro text\n\n### Detail\n\nDetail text\n\n## Other\n\nOther text\n",
+    "card.html":
+      '<html><body><div class="card">Card</div><p>Not the card</p></body></html>',
+    "page.html":
+      '<html><body><transclude- src="Source#Intro"></transclude-><transclude- src="/card.html" select=".card"></transclude-></body></html>',
+    "notes.md": "# Notes\n\n![[Source#Other]]\n\nAfter\n",
+    "a.md": "# A\n\n![[/b.md]]\n",
+    "b.md": "# B\n\n![[/a.md]]\n",
+    "host.md": "# Host\n\n![[Nope]]\n\n![[/secret.md]]\n\nStill here\n",
+    "secret.md": "---\nprivate: true\n---\n# Secret\n\nSecret text\n",
+  }
+  try {
+    for (const [name, content] of Object.entries(files)) {
+      await writeFile(join(directory, name), content)
+    }
+    const fileCache = await buildCache({ searchDirectories: [directory] })
+    const read = async (
+      contentPath: string,
+      extra: Record<string, string> = {},
+      from = fileCache,
+    ) =>
+      (
+        await execute({
+          fileCache: from,
+          parameters: setEachParameterWithSource(
+            {},
+            {
+              command: "read",
+              contentPath,
+              nocontainer: "nocontainer",
+              ...extra,
+            },
+            "query param",
+          ),
+        })
+      ).content
+
+    const page = await read("/page.html")
+    assert.match(page, /Intro text/)
+    assert.match(page, /Detail text/)
+    assert.doesNotMatch(page, /Other text|Backlinks/)
+    assert.match(page, /<div class="card">Card<\/div>/)
+    assert.doesNotMatch(page, /Not the card|transclude-/)
+
+    const notes = await read("/notes.md")
+    assert.match(notes, /<h2>Other<\/h2>\s*<p>Other text<\/p>/)
+    assert.match(notes, /After/)
+
+    assert.deepEqual(
+      (await fileCache.getTranscludedByContentPath("/source.md")).toSorted(),
+      ["/notes.md", "/page.html"],
+    )
+    assert.match(await read("/source.md"), /Transcluded by/)
+
+    await assert.rejects(read("/a.md"), RenderBudgetQueryError)
+
+    // Missing entries, or private ones, leave a marker and the page around it
+    const host = await read("/host.md")
+    assert.match(host, /<span missing-transclusion>[^<]*Nope<\/span>/)
+    assert.match(host, /Secret text/)
+    assert.match(host, /Still here/)
+    const publicHost = await read("/host.md", {}, fileCache.withoutPrivate())
+    assert.match(publicHost, /missing-transclusion>[^<]*\/secret\.md</)
+    assert.doesNotMatch(publicHost, /Secret text/)
+    assert.match(publicHost, /Still here/)
+    const lenientHost = await read("/host.md", { lenient: "lenient" })
+    assert.match(lenientHost, /<code template-error[^>]*>[^<]*Nope/)
+  } finally {
+    await rm(directory, { recursive: true })
+  }
+})
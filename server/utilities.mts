@@ -16,6 +16,7 @@ import {
   gfmTaskListItemHtml,
 } from "micromark-extension-gfm-task-list-item"
 import type { ReadonlyDeep } from "type-fest"
+import { createHash } from "node:crypto"
 
 // Stolen from NakedJSX https://github.com/NakedJSX/core
 export const escapeHtml = (text: string) => {
@@ -59,6 +60,10 @@ export const renderMarkdown = (content: string): string =>
 export const html: typeof String.raw = (templates, ...args) =>
   String.raw(templates, ...args)
 
+// Identifies a version of some content, e.g. to detect conflicting edits
+export const hashContent = (content: string | Buffer) =>
+  createHash("sha256").update(content).digest("hex")
+
 export const wait = (millis: number) =>
   new Promise((resolve) => setTimeout(resolve, millis))
 